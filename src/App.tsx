@@ -1,21 +1,8 @@
 import './App.css'
-// import Demo from './context+provider+customHooks/demo'
-// import Demo from './context+provider+customHook+reducer/demo'
-import Demo from './shadcn+hookfrom+dynamicValidation/demo'
+import { Playground } from './playground/Playground'
 
 function App() {
-  return (
-    <>
-      {/* context provider customHooks */}
-      {/* <Demo /> */}
-
-      {/* context provider customHooks reducer */}
-      {/* <Demo /> */}
-
-      {/* dynamic validation react hook form */}
-      <Demo />
-    </>
-  )
+  return <Playground />
 }
 
 export default App
@@ -0,0 +1,26 @@
+import * as React from 'react'
+
+import { cn } from '@/lib/utils'
+
+/**
+ * Native checkbox component
+ */
+const Checkbox = React.forwardRef<
+  HTMLInputElement,
+  Omit<React.InputHTMLAttributes<HTMLInputElement>, 'type'>
+>(({ className, ...props }, ref) => {
+  return (
+    <input
+      type="checkbox"
+      className={cn(
+        'h-4 w-4 shrink-0 rounded-sm border border-primary accent-primary shadow focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50',
+        className
+      )}
+      ref={ref}
+      {...props}
+    />
+  )
+})
+Checkbox.displayName = 'Checkbox'
+
+export { Checkbox }
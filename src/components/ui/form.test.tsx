@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import {
+  Form,
+  FormControl,
+  FormErrorSummary,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from './form'
+
+const schema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  email: z.email('Enter a valid email'),
+})
+
+function TestForm() {
+  const form = useForm({
+    resolver: zodResolver(schema),
+    defaultValues: { name: '', email: '' },
+    // Leave focusing to the summary
+    shouldFocusError: false,
+  })
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(() => {})}>
+        {(['name', 'email'] as const).map((name) => (
+          <FormField
+            key={name}
+            control={form.control}
+            name={name}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{name}</FormLabel>
+                <FormControl>
+                  <input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ))}
+        <FormErrorSummary />
+        <button type="submit">Submit</button>
+      </form>
+    </Form>
+  )
+}
+
+describe('useFormField', () => {
+  it('throws outside of a FormField', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    function Orphan() {
+      const form = useForm()
+      return (
+        <Form {...form}>
+          <FormItem>
+            <FormLabel>Orphan</FormLabel>
+          </FormItem>
+        </Form>
+      )
+    }
+
+    expect(() => render(<Orphan />)).toThrow(
+      'useFormField should be used within <FormField>'
+    )
+  })
+})
+
+describe('FormErrorSummary', () => {
+  it('stays empty until a submit fails', async () => {
+    render(<TestForm />)
+
+    await userEvent.type(screen.getByLabelText('email'), 'x')
+
+    expect(screen.queryByText('Please fix the following errors')).toBeNull()
+  })
+
+  it('links every error to its field and focuses the first one', async () => {
+    render(<TestForm />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }))
+
+    const summary = within(
+      screen.getByText('Please fix the following errors')
+        .parentElement as HTMLElement
+    )
+    const nameLink = summary.getByRole('link', { name: 'Name is required' })
+    const emailLink = summary.getByRole('link', { name: 'Enter a valid email' })
+    expect(nameLink).toHaveAttribute(
+      'href',
+      `#${screen.getByLabelText('name').id}`
+    )
+    expect(screen.getByLabelText('name')).toHaveFocus()
+
+    await userEvent.click(emailLink)
+
+    expect(screen.getByLabelText('email')).toHaveFocus()
+  })
+
+  it('updates as errors are fixed', async () => {
+    render(<TestForm />)
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }))
+
+    await userEvent.type(screen.getByLabelText('name'), 'Ada')
+
+    expect(screen.queryByRole('link', { name: 'Name is required' })).toBeNull()
+    expect(
+      screen.getByRole('link', { name: 'Enter a valid email' })
+    ).toBeVisible()
+  })
+
+  it('focuses fields rejected by the submit handler', async () => {
+    function ServerForm() {
+      const form = useForm({ defaultValues: { name: '', email: '' } })
+
+      return (
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(() =>
+              form.setError('email', { message: 'Email is taken' })
+            )}
+          >
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>email</FormLabel>
+                  <FormControl>
+                    <input {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormErrorSummary />
+            <button type="submit">Submit</button>
+          </form>
+        </Form>
+      )
+    }
+    render(<ServerForm />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }))
+
+    expect(screen.getByRole('link', { name: 'Email is taken' })).toBeVisible()
+    expect(screen.getByLabelText('email')).toHaveFocus()
+  })
+})
@@ -5,18 +5,41 @@ import {
   Controller,
   FormProvider,
   useFormContext,
+  useFormState,
   type ControllerProps,
   type FieldPath,
   type FieldValues,
+  type FormProviderProps,
 } from 'react-hook-form'
 
 import { cn } from '@/lib/utils'
 import { Label } from '@/components/ui/label'
 
+/**
+ * Maps field names to the `formItemId` of the item rendering them, for FormErrorSummary links
+ */
+const FormFieldIdsContext = React.createContext<Map<string, string> | null>(
+  null
+)
+
 /**
  * Form root provider component
  */
-const Form = FormProvider
+const Form = <
+  TFieldValues extends FieldValues,
+  TContext = unknown,
+  TTransformedValues = TFieldValues
+>(
+  props: FormProviderProps<TFieldValues, TContext, TTransformedValues>
+) => {
+  const [fieldIds] = React.useState(() => new Map<string, string>())
+
+  return (
+    <FormFieldIdsContext.Provider value={fieldIds}>
+      <FormProvider {...props} />
+    </FormFieldIdsContext.Provider>
+  )
+}
 
 interface FormFieldContextValue<
   TFieldValues extends FieldValues = FieldValues,
@@ -25,19 +48,18 @@ interface FormFieldContextValue<
   name: TName
 }
 
-const FormFieldContext = React.createContext<FormFieldContextValue>(
-  {} as FormFieldContextValue
-)
+const FormFieldContext = React.createContext<FormFieldContextValue | null>(null)
 
 /**
  * Form field wrapper component that provides context for form field components
  */
 const FormField = <
   TFieldValues extends FieldValues = FieldValues,
-  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>
+  TName extends FieldPath<TFieldValues> = FieldPath<TFieldValues>,
+  TTransformedValues = TFieldValues
 >({
   ...props
-}: ControllerProps<TFieldValues, TName>) => {
+}: ControllerProps<TFieldValues, TName, TTransformedValues>) => {
   return (
     <FormFieldContext.Provider value={{ name: props.name }}>
       <Controller {...props} />
@@ -45,23 +67,62 @@ const FormField = <
   )
 }
 
+/**
+ * Form field array wrapper that provides field context for a useFieldArray group
+ * The array itself is not registered, so its items can still use FormField
+ */
+const FormFieldArray = ({
+  name,
+  children,
+}: {
+  name: string
+  children: React.ReactNode
+}) => {
+  return (
+    <FormFieldContext.Provider value={{ name }}>
+      {children}
+    </FormFieldContext.Provider>
+  )
+}
+
 const useFormField = () => {
   const fieldContext = React.useContext(FormFieldContext)
   const itemContext = React.useContext(FormItemContext)
-  const { getFieldState, formState } = useFormContext()
-
-  const fieldState = getFieldState(fieldContext.name, formState)
+  const fieldIds = React.useContext(FormFieldIdsContext)
+  const formContext = useFormContext()
 
+  // Checked before reading any field state, which needs all three
   if (!fieldContext) {
     throw new Error('useFormField should be used within <FormField>')
   }
+  if (!itemContext) {
+    throw new Error('useFormField should be used within <FormItem>')
+  }
+  if (!formContext) {
+    throw new Error('useFormField should be used within <Form>')
+  }
 
+  const { name } = fieldContext
   const { id } = itemContext
+  const formItemId = `${id}-form-item`
+  const fieldState = formContext.getFieldState(name, formContext.formState)
+
+  React.useEffect(() => {
+    fieldIds?.set(name, formItemId)
+
+    return () => {
+      // Another item may have taken over the name, e.g. after reordering
+      if (fieldIds?.get(name) === formItemId) {
+        fieldIds.delete(name)
+      }
+    }
+  }, [fieldIds, name, formItemId])
 
   return {
     id,
-    name: fieldContext.name,
-    formItemId: `${id}-form-item`,
+    name,
+    formItemId,
+    formLabelId: `${id}-form-item-label`,
     formDescriptionId: `${id}-form-item-description`,
     formMessageId: `${id}-form-item-message`,
     ...fieldState,
@@ -72,9 +133,7 @@ interface FormItemContextValue {
   id: string
 }
 
-const FormItemContext = React.createContext<FormItemContextValue>(
-  {} as FormItemContextValue
-)
+const FormItemContext = React.createContext<FormItemContextValue | null>(null)
 
 /**
  * Form item container component
@@ -100,11 +159,12 @@ const FormLabel = React.forwardRef<
   React.ElementRef<typeof LabelPrimitive.Root>,
   React.ComponentPropsWithoutRef<typeof LabelPrimitive.Root>
 >(({ className, ...props }, ref) => {
-  const { error, formItemId } = useFormField()
+  const { error, formItemId, formLabelId } = useFormField()
 
   return (
     <Label
       ref={ref}
+      id={formLabelId}
       className={cn(error && 'text-destructive', className)}
       htmlFor={formItemId}
       {...props}
@@ -166,7 +226,9 @@ const FormMessage = React.forwardRef<
   React.HTMLAttributes<HTMLParagraphElement>
 >(({ className, children, ...props }, ref) => {
   const { error, formMessageId } = useFormField()
-  const body = error ? String(error?.message) : children
+  // Field array errors carry their group-level message on `root`
+  const message = error?.message ?? error?.root?.message
+  const body = message ? String(message) : children
 
   if (!body) {
     return null
@@ -185,6 +247,121 @@ const FormMessage = React.forwardRef<
 })
 FormMessage.displayName = 'FormMessage'
 
+interface FormErrorEntry {
+  name: string
+  message: string
+}
+
+/**
+ * Flattens an errors object into one entry per message, named by the field's dotted path
+ * A field array's own error (on `root`) is named after the array
+ */
+function getErrorEntries(errors: object, prefix = ''): FormErrorEntry[] {
+  return Object.entries(errors).flatMap(([key, error]: [string, unknown]) => {
+    if (typeof error !== 'object' || error === null) {
+      return []
+    }
+
+    const name =
+      key === 'root' && prefix ? prefix : prefix ? `${prefix}.${key}` : key
+    if ('message' in error && typeof error.message === 'string') {
+      return error.message ? [{ name, message: error.message }] : []
+    }
+    // Field errors without a message have nothing to show or look into
+    return 'type' in error ? [] : getErrorEntries(error, name)
+  })
+}
+
+/**
+ * Moves focus to the field rendered with the given id
+ * Returns false when there is no such element or it can't take focus, e.g. a fieldset
+ */
+function focusFormItem(formItemId: string) {
+  const element = document.getElementById(formItemId)
+  element?.scrollIntoView?.({ block: 'center' })
+  element?.focus({ preventScroll: true })
+
+  return element !== null && document.activeElement === element
+}
+
+/**
+ * Form error summary listing every field error after a failed submit
+ * Each message links to its field, the first invalid field is focused after the submit,
+ * and changes are announced through a polite live region.
+ * Form-level `root` errors are left for the form to show, as they have no field to link to
+ */
+const FormErrorSummary = React.forwardRef<
+  HTMLDivElement,
+  Omit<React.HTMLAttributes<HTMLDivElement>, 'title'> & {
+    title?: React.ReactNode
+  }
+>(({ className, title = 'Please fix the following errors', ...props }, ref) => {
+  const { errors, submitCount, isSubmitSuccessful } = useFormState()
+  const fieldIds = React.useContext(FormFieldIdsContext)
+  const handledSubmitRef = React.useRef(submitCount)
+
+  const entries = getErrorEntries(errors).filter(
+    ({ name }) => name !== 'root' && !name.startsWith('root.')
+  )
+  const visible = submitCount > 0 && entries.length > 0
+
+  // Focus once per failed submit, unless it already landed on an invalid field
+  React.useEffect(() => {
+    if (handledSubmitRef.current === submitCount || isSubmitSuccessful) {
+      return
+    }
+    handledSubmitRef.current = submitCount
+
+    const ids = entries.flatMap((entry) => fieldIds?.get(entry.name) ?? [])
+    if (!ids.includes(document.activeElement?.id ?? '')) {
+      ids.some(focusFormItem)
+    }
+  }, [submitCount, isSubmitSuccessful, entries, fieldIds])
+
+  return (
+    <div aria-live="polite" aria-atomic="true">
+      {visible && (
+        <div
+          ref={ref}
+          className={cn(
+            'space-y-2 rounded-md border border-destructive p-4 text-sm',
+            className
+          )}
+          {...props}
+        >
+          <p className="font-medium text-destructive">{title}</p>
+          <ul className="list-disc space-y-1 pl-5">
+            {entries.map(({ name, message }) => {
+              const formItemId = fieldIds?.get(name)
+
+              return (
+                <li key={name}>
+                  {formItemId ? (
+                    <a
+                      href={`#${formItemId}`}
+                      className="text-destructive underline underline-offset-4"
+                      // Hash navigation would be taken as a route change, so focus directly
+                      onClick={(event) => {
+                        event.preventDefault()
+                        focusFormItem(formItemId)
+                      }}
+                    >
+                      {message}
+                    </a>
+                  ) : (
+                    message
+                  )}
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+})
+FormErrorSummary.displayName = 'FormErrorSummary'
+
 export {
   useFormField,
   Form,
@@ -193,5 +370,7 @@ export {
   FormControl,
   FormDescription,
   FormMessage,
+  FormErrorSummary,
   FormField,
+  FormFieldArray,
 }
@@ -0,0 +1,45 @@
+import * as React from 'react'
+
+import { cn } from '@/lib/utils'
+
+/**
+ * Radio group container
+ * Label it with aria-labelledby, since a label element cannot point at a group
+ */
+const RadioGroup = React.forwardRef<
+  HTMLDivElement,
+  React.HTMLAttributes<HTMLDivElement>
+>(({ className, ...props }, ref) => {
+  return (
+    <div
+      role="radiogroup"
+      className={cn('grid gap-2', className)}
+      ref={ref}
+      {...props}
+    />
+  )
+})
+RadioGroup.displayName = 'RadioGroup'
+
+/**
+ * Native radio input for use inside RadioGroup
+ */
+const RadioGroupItem = React.forwardRef<
+  HTMLInputElement,
+  Omit<React.InputHTMLAttributes<HTMLInputElement>, 'type'>
+>(({ className, ...props }, ref) => {
+  return (
+    <input
+      type="radio"
+      className={cn(
+        'h-4 w-4 shrink-0 accent-primary focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring disabled:cursor-not-allowed disabled:opacity-50',
+        className
+      )}
+      ref={ref}
+      {...props}
+    />
+  )
+})
+RadioGroupItem.displayName = 'RadioGroupItem'
+
+export { RadioGroup, RadioGroupItem }
@@ -0,0 +1,57 @@
+import { useSyncExternalStore } from 'react'
+import type { Inspector } from '../context/middleware'
+
+interface ReducerInspectorProps<S, A> {
+  inspector: Inspector<S, A>
+}
+
+// Arrays such as history stacks are summarised by their length
+function formatValue(value: unknown) {
+  return Array.isArray(value)
+    ? `[${value.length} items]`
+    : JSON.stringify(value) ?? String(value)
+}
+
+export function ReducerInspector<S, A extends { type: string }>({
+  inspector,
+}: ReducerInspectorProps<S, A>) {
+  const entries = useSyncExternalStore(
+    inspector.subscribe,
+    inspector.getEntries,
+    inspector.getEntries
+  )
+
+  return (
+    <section className="reducer-inspector" aria-label="Reducer inspector">
+      <h2>Dispatched Actions</h2>
+      <button onClick={inspector.clear} disabled={entries.length === 0}>
+        Clear
+      </button>
+      {entries.length === 0 ? (
+        <p>No actions yet</p>
+      ) : (
+        <ol>
+          {entries.map((entry) => (
+            <li key={entry.id}>
+              <strong>{entry.action.type}</strong>{' '}
+              {/* time travel back to the state right after this action */}
+              <button onClick={() => inspector.jumpTo(entry)}>Jump here</button>
+              {entry.changes.length === 0 ? (
+                <p>No state change</p>
+              ) : (
+                <ul>
+                  {entry.changes.map((change) => (
+                    <li key={change.path}>
+                      <code>{change.path || 'state'}</code>:{' '}
+                      {formatValue(change.prev)} → {formatValue(change.next)}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  )
+}
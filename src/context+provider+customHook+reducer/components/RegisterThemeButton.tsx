@@ -0,0 +1,19 @@
+import { useThemeActions, useThemeSelector } from '../context/useThemeSelector'
+import type { ThemeDefinition } from '../context/themeRegistry'
+
+interface RegisterThemeButtonProps {
+  theme: ThemeDefinition
+}
+
+export function RegisterThemeButton({ theme }: RegisterThemeButtonProps) {
+  const registered = useThemeSelector((snapshot) =>
+    snapshot.themes.some(({ name }) => name === theme.name)
+  )
+  const { registerTheme } = useThemeActions()
+
+  return (
+    <button onClick={() => registerTheme(theme)} disabled={registered}>
+      Add {theme.label} Theme
+    </button>
+  )
+}
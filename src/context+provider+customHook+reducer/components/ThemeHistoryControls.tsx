@@ -0,0 +1,20 @@
+import { useThemeActions, useThemeSelector } from '../context/useThemeSelector'
+
+export function ThemeHistoryControls() {
+  // Only re-renders when canUndo or canRedo flips
+  const canUndo = useThemeSelector((snapshot) => snapshot.canUndo)
+  const canRedo = useThemeSelector((snapshot) => snapshot.canRedo)
+  const { undo, redo, reset } = useThemeActions()
+
+  return (
+    <div className="theme-history-controls">
+      <button onClick={undo} disabled={!canUndo}>
+        ↩️ Undo
+      </button>
+      <button onClick={redo} disabled={!canRedo}>
+        ↪️ Redo
+      </button>
+      <button onClick={reset}>Reset</button>
+    </div>
+  )
+}
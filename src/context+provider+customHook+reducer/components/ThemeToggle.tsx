@@ -1,17 +1,88 @@
 import { useTheme } from '../context/useTheme'
 
 export function ThemeToggle() {
-  const { theme, toggleTheme } = useTheme()
+  const {
+    theme,
+    resolvedTheme,
+    themes,
+    toggleTheme,
+    cycleTheme,
+    setTheme,
+    setTransitionOrigin,
+  } = useTheme()
+
+  // A 'reveal' transition grows out of the control that was used
+  const revealFrom = (element: Element) => {
+    const rect = element.getBoundingClientRect()
+    setTransitionOrigin({
+      x: rect.left + rect.width / 2,
+      y: rect.top + rect.height / 2,
+    })
+  }
+
+  // More than light and dark to choose from, so offer every theme
+  if (themes.length > 2) {
+    return (
+      <div className="theme-toggle-group">
+        <label>
+          Theme{' '}
+          <select
+            value={theme}
+            onChange={(event) => {
+              revealFrom(event.currentTarget)
+              setTheme(event.target.value)
+            }}
+          >
+            <option value="system">🖥️ System</option>
+            {themes.map(({ name, label }) => (
+              <option key={name} value={name}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={(event) => {
+            revealFrom(event.currentTarget)
+            cycleTheme()
+          }}
+          aria-label="Switch to next theme"
+        >
+          🎨
+          <span>Next Theme</span>
+        </button>
+      </div>
+    )
+  }
+
+  const isLight =
+    themes.find(({ name }) => name === resolvedTheme)?.colorScheme !== 'dark'
 
   return (
-    <button
-      onClick={toggleTheme}
-      className={`theme-toggle theme-toggle--${theme}`}
-      aria-label={`Switch to ${theme === 'light' ? 'dark' : 'light'} theme`}
-    >
-      {/* current is light, display as dark so click change to dark */}
-      {theme === 'light' ? '🌙' : '☀️'}
-      <span>{theme === 'light' ? 'Dark Mode' : 'Light Mode'}</span>
-    </button>
+    <div className="theme-toggle-group">
+      <button
+        onClick={(event) => {
+          revealFrom(event.currentTarget)
+          toggleTheme()
+        }}
+        className={`theme-toggle theme-toggle--${resolvedTheme}`}
+        aria-label={`Switch to ${isLight ? 'dark' : 'light'} theme`}
+      >
+        {/* current is light, display as dark so click change to dark */}
+        {isLight ? '🌙' : '☀️'}
+        <span>{isLight ? 'Dark Mode' : 'Light Mode'}</span>
+      </button>
+      {/* follow the OS setting instead of a fixed theme */}
+      <button
+        onClick={(event) => {
+          revealFrom(event.currentTarget)
+          setTheme('system')
+        }}
+        aria-pressed={theme === 'system'}
+      >
+        🖥️
+        <span>System</span>
+      </button>
+    </div>
   )
 }
@@ -1,26 +1,120 @@
-import React from 'react'
+import { createReducerContext, createStrictContext } from '@/lib/createContext'
+import type { ThemeDefinition } from './themeRegistry'
+import {
+  createHistoryState,
+  type HistoryAction,
+  type HistoryState,
+} from './withHistory'
+import { createInitialThemeState, themeHistoryReducer } from './themeReducer'
+import type { ThemeStorage } from './themeStorage'
+import type { TransitionOrigin } from './themeTransition'
+import type { Middleware } from '@/lib/middleware'
+
+// Declares the two color schemes the OS and index.css know about
+export type ColorScheme = 'light' | 'dark'
+
+// Declares the name of a registered theme
+// Built-in names are listed for autocompletion, registered palettes can use any name
+export type ThemeName =
+  | 'light'
+  | 'dark'
+  | 'high-contrast'
+  | 'sepia'
+  | (string & {})
 
 // Declares type
-export type Theme = 'light' | 'dark'
+// 'system' follows the OS prefers-color-scheme setting
+export type Theme = ThemeName | 'system'
+
+// Declares the theme actually shown once 'system' is resolved
+export type ResolvedTheme = ThemeName
 
 // Declares action types for reducer
 export type ThemeAction =
   | { type: 'TOGGLE_THEME' }
+  | { type: 'CYCLE_THEME' }
   | { type: 'SET_THEME'; payload: Theme }
+  | { type: 'REGISTER_THEME'; payload: ThemeDefinition }
+  | { type: 'SET_SYSTEM_THEME'; payload: ColorScheme }
+  | { type: 'INHERIT_THEME'; payload: Theme }
 
 // Declares state interface
+// systemTheme mirrors the OS preference so 'system' can be resolved
+// inherited is true while a nested scope follows its parent's theme
 export interface ThemeState {
   theme: Theme
+  systemTheme: ColorScheme
+  themes: readonly ThemeDefinition[]
+  inherited: boolean
 }
 
-// Declares context interface
-export interface ThemeContextValue {
+// Declares the provider's reducer state and actions, which keep undo/redo history
+export type ThemeHistoryState = HistoryState<ThemeState>
+export type ThemeHistoryAction = HistoryAction<ThemeAction>
+
+// Declares middleware for the provider's reducer
+export type ThemeMiddleware = Middleware<ThemeHistoryState, ThemeHistoryAction>
+
+// Declares the state a useThemeSelector selector reads
+export interface ThemeSnapshot {
   theme: Theme
+  resolvedTheme: ResolvedTheme
+  themes: readonly ThemeDefinition[]
+  canUndo: boolean
+  canRedo: boolean
+}
+
+// Declares the action creators, which keep their identity for the provider's lifetime
+export interface ThemeActions {
   toggleTheme: () => void
+  cycleTheme: () => void
   setTheme: (theme: Theme) => void
+  registerTheme: (theme: ThemeDefinition) => void
+  undo: () => void
+  redo: () => void
+  reset: () => void
+  // Makes the next 'reveal' transition start from this point
+  setTransitionOrigin: (origin: TransitionOrigin | undefined) => void
 }
 
+// Declares context interface
+// isRoot is false for providers nested inside another ThemeProvider
+export interface ThemeContextValue extends ThemeSnapshot, ThemeActions {
+  isRoot: boolean
+}
+
+// Declares what a ThemeStore provider starts from
+// The persisted theme wins over fallbackTheme
+export interface ThemeStoreInit {
+  storage: ThemeStorage | null | undefined
+  fallbackTheme: Theme
+  themes: readonly ThemeDefinition[]
+  inherited: boolean
+}
+
+// Declares the store holding each provider's reducer state
+export const ThemeStore = createReducerContext({
+  name: 'ThemeStore',
+  reducer: themeHistoryReducer,
+  init: ({ storage, fallbackTheme, themes, inherited }: ThemeStoreInit) =>
+    createHistoryState(
+      createInitialThemeState(
+        storage?.getTheme() ?? fallbackTheme,
+        themes,
+        inherited
+      )
+    ),
+})
+
 // Declares context
-export const ThemeContext = React.createContext<ThemeContextValue | undefined>(
-  undefined
+export const ThemeContext = createStrictContext<ThemeContextValue>('Theme')
+
+// Declares context holding the action creators only, so it never changes
+export const ThemeActionsContext = createStrictContext<ThemeActions>(
+  'ThemeActions',
+  { providerName: 'ThemeProvider' }
 )
+
+// Declares context holding the outermost provider's value
+export const RootThemeContext =
+  createStrictContext<ThemeContextValue>('RootTheme')
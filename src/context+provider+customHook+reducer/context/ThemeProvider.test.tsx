@@ -0,0 +1,126 @@
+import { describe, expect, it, vi } from 'vitest'
+import { act, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ThemeProvider } from './ThemeProvider'
+import { useTheme } from './useTheme'
+import { useThemeActions, useThemeSelector } from './useThemeSelector'
+import { ThemeToggle } from '../components/ThemeToggle'
+import type { ThemeActions } from './ThemeContext'
+
+function ThemeName({ scope }: { scope?: 'root' }) {
+  const { resolvedTheme } = useTheme({ scope })
+  return <output>{resolvedTheme}</output>
+}
+
+describe('useTheme', () => {
+  it('throws outside of a ThemeProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(() => render(<ThemeName />)).toThrow(
+      'useTheme must be used within a ThemeProvider'
+    )
+  })
+})
+
+describe('ThemeProvider', () => {
+  it('applies and persists the chosen theme', async () => {
+    render(
+      <ThemeProvider defaultTheme="light">
+        <ThemeToggle />
+      </ThemeProvider>
+    )
+
+    await userEvent.selectOptions(screen.getByLabelText('Theme'), 'dark')
+
+    expect(document.documentElement).toHaveClass('dark')
+    expect(localStorage.getItem('theme')).toBe('dark')
+  })
+
+  it('starts from the persisted theme', () => {
+    localStorage.setItem('theme', 'sepia')
+    render(
+      <ThemeProvider defaultTheme="light">
+        <ThemeName />
+      </ThemeProvider>
+    )
+
+    expect(screen.getByRole('status')).toHaveTextContent('sepia')
+  })
+
+  it('scopes nested providers to their wrapping element', () => {
+    render(
+      <ThemeProvider defaultTheme="light">
+        <ThemeProvider defaultTheme="dark" className="preview">
+          <ThemeName />
+          <ThemeName scope="root" />
+        </ThemeProvider>
+      </ThemeProvider>
+    )
+
+    const [nearest, root] = screen.getAllByRole('status')
+    expect(nearest).toHaveTextContent('dark')
+    expect(root).toHaveTextContent('light')
+    expect(nearest.closest('.theme-scope')).toHaveClass('preview', 'dark')
+    expect(document.documentElement).not.toHaveClass('dark')
+  })
+
+  it('removes the applied theme on unmount', () => {
+    const { unmount } = render(
+      <ThemeProvider defaultTheme="dark">{null}</ThemeProvider>
+    )
+    const root = document.documentElement
+    expect(root).toHaveClass('dark')
+    expect(root.style.getPropertyValue('--background')).not.toBe('')
+
+    unmount()
+
+    expect(root).not.toHaveClass('dark')
+    expect(root.style.getPropertyValue('--background')).toBe('')
+    expect(root.style.colorScheme).toBe('')
+  })
+})
+
+describe('useThemeSelector', () => {
+  it('only re-renders consumers whose selection changed', () => {
+    const renders = { theme: 0, canRedo: 0, actions: 0 }
+    let actions: ThemeActions | undefined
+
+    function FullConsumer() {
+      useTheme()
+      renders.theme++
+      return null
+    }
+    function CanRedoConsumer() {
+      useThemeSelector((snapshot) => snapshot.canRedo)
+      renders.canRedo++
+      return null
+    }
+    function ActionsConsumer() {
+      actions = useThemeActions()
+      renders.actions++
+      return null
+    }
+
+    render(
+      <ThemeProvider defaultTheme="light">
+        <FullConsumer />
+        <CanRedoConsumer />
+        <ActionsConsumer />
+      </ThemeProvider>
+    )
+    const initialRenders = { ...renders }
+
+    act(() => actions?.toggleTheme())
+    act(() => actions?.cycleTheme())
+    act(() => actions?.setTheme('sepia'))
+
+    expect(renders.theme).toBeGreaterThan(initialRenders.theme + 2)
+    expect(renders.canRedo).toBe(initialRenders.canRedo)
+    expect(renders.actions).toBe(initialRenders.actions)
+
+    act(() => actions?.undo())
+
+    expect(renders.canRedo).toBe(initialRenders.canRedo + 1)
+    expect(renders.actions).toBe(initialRenders.actions)
+  })
+})
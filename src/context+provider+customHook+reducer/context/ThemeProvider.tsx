@@ -1,41 +1,241 @@
-import { useReducer, useCallback, type ReactNode } from 'react'
+import { useEffect, useMemo, useRef, type ReactNode } from 'react'
 import {
   ThemeContext,
+  RootThemeContext,
+  ThemeStore,
+  ThemeActionsContext,
   type Theme,
+  type ThemeActions,
   type ThemeContextValue,
+  type ThemeMiddleware,
 } from './ThemeContext'
-import { themeReducer, createInitialThemeState } from './themeReducer'
+import { getThemeDefinition, getThemeSnapshot } from './themeReducer'
+import { builtInThemes, type ThemeDefinition } from './themeRegistry'
+import { applyTheme, clearTheme, subscribeToSystemTheme } from './systemTheme'
+import {
+  runThemeTransition,
+  type ThemeTransition,
+  type TransitionOrigin,
+} from './themeTransition'
+import { localThemeStorage, type ThemeStorage } from './themeStorage'
 
 interface ThemeProviderProps {
   children: ReactNode
+  // Nested providers without a defaultTheme inherit the parent's theme
   defaultTheme?: Theme
+  // Where the chosen theme is persisted
+  // localStorage by default at the root, nothing by default in nested scopes
+  storage?: ThemeStorage | null
+  // Initial theme registry, more themes can be registered at runtime
+  // Nested providers start from the parent's registry by default
+  themes?: readonly ThemeDefinition[]
+  // Class of the element a nested scope wraps its children in
+  className?: string
+  // Runs on every dispatched action, e.g. logging or an inspector
+  // Pass a stable array, a new one every render recreates the action creators
+  middleware?: readonly ThemeMiddleware[]
+  // Animates theme changes, skipped on first paint and under prefers-reduced-motion
+  transition?: ThemeTransition
+  transitionDuration?: number
 }
 
 export function ThemeProvider({
   children,
-  defaultTheme = 'light',
+  defaultTheme,
+  storage,
+  themes,
+  className,
+  middleware,
+  transition = 'none',
+  transitionDuration = 400,
 }: ThemeProviderProps) {
-  // Use reducer with separate reducer function
-  const [state, dispatch] = useReducer(
-    themeReducer,
-    createInitialThemeState(defaultTheme)
+  // The nearest enclosing provider, undefined for the root
+  const parent = ThemeContext.useOptionalContext()
+  const isRoot = parent === undefined
+  const themeStorage =
+    storage === undefined && isRoot ? localThemeStorage : storage
+  const fallbackTheme = defaultTheme ?? parent?.theme ?? 'light'
+
+  // The store owns the reducer, starting from the persisted theme
+  // Dispatch runs through the middleware before reaching the reducer
+  return (
+    <ThemeStore.Provider
+      initialArg={{
+        storage: themeStorage,
+        fallbackTheme,
+        themes: themes ?? parent?.themes ?? builtInThemes,
+        inherited: !isRoot && defaultTheme === undefined,
+      }}
+      middleware={middleware}
+    >
+      <ThemeScope
+        parent={parent}
+        storage={themeStorage}
+        fallbackTheme={fallbackTheme}
+        className={className}
+        transition={transition}
+        transitionDuration={transitionDuration}
+      >
+        {children}
+      </ThemeScope>
+    </ThemeStore.Provider>
+  )
+}
+
+interface ThemeScopeProps {
+  children: ReactNode
+  parent: ThemeContextValue | undefined
+  storage: ThemeStorage | null | undefined
+  fallbackTheme: Theme
+  className?: string
+  transition: ThemeTransition
+  transitionDuration: number
+}
+
+// Syncs the store with storage, the OS and the DOM, and provides the context value
+function ThemeScope({
+  children,
+  parent,
+  storage: themeStorage,
+  fallbackTheme,
+  className,
+  transition,
+  transitionDuration,
+}: ThemeScopeProps) {
+  const isRoot = parent === undefined
+  const scopeRef = useRef<HTMLDivElement>(null)
+  // The theme last synced to the DOM, undefined until first paint
+  const appliedThemeRef = useRef<ThemeDefinition>(undefined)
+  // Where the next reveal starts, set by the control that changes the theme
+  const transitionOriginRef = useRef<TransitionOrigin>(undefined)
+
+  // The history wrapper keeps past and future states for undo/redo
+  const [history, dispatch] = ThemeStore.useStore()
+  const state = history.present
+  const themeDefinition = getThemeDefinition(state)
+
+  // Persist every change
+  useEffect(() => {
+    themeStorage?.setTheme(state.theme)
+  }, [themeStorage, state.theme])
+
+  // Pick up changes made in other tabs
+  useEffect(
+    () =>
+      themeStorage?.subscribe((storedTheme) => {
+        dispatch({ type: 'SET_THEME', payload: storedTheme ?? fallbackTheme })
+      }),
+    [themeStorage, fallbackTheme, dispatch]
+  )
+
+  // Follow the parent's theme while this scope inherits it
+  const parentTheme = parent?.theme
+  useEffect(() => {
+    if (parentTheme !== undefined) {
+      dispatch({ type: 'INHERIT_THEME', payload: parentTheme })
+    }
+  }, [parentTheme, dispatch])
+
+  // Keep systemTheme in step with the OS preference
+  useEffect(
+    () =>
+      subscribeToSystemTheme((systemTheme) => {
+        dispatch({ type: 'SET_SYSTEM_THEME', payload: systemTheme })
+      }),
+    [dispatch]
   )
 
-  // Action creators wrapped in useCallback
-  const setTheme = useCallback((newTheme: Theme) => {
-    dispatch({ type: 'SET_THEME', payload: newTheme })
-  }, [])
+  // Sync the resolved theme's class and tokens to <html>,
+  // or to the wrapping element for nested scopes
+  useEffect(() => {
+    const element = isRoot ? document.documentElement : scopeRef.current
+    if (!element || appliedThemeRef.current === themeDefinition) {
+      return
+    }
+
+    // Nothing to animate from on first paint
+    const isFirstPaint = appliedThemeRef.current === undefined
+    appliedThemeRef.current = themeDefinition
+    if (isFirstPaint) {
+      applyTheme(element, themeDefinition)
+      return
+    }
+
+    runThemeTransition(
+      element,
+      {
+        transition,
+        duration: transitionDuration,
+        origin: transitionOriginRef.current,
+      },
+      () => applyTheme(element, themeDefinition)
+    )
+    transitionOriginRef.current = undefined
+  }, [isRoot, themeDefinition, transition, transitionDuration])
 
-  const toggleTheme = useCallback(() => {
-    dispatch({ type: 'TOGGLE_THEME' })
-  }, [])
+  // Undo the last applied theme on unmount, so it doesn't outlive the provider.
+  // Kept apart from the effect above, which must not clear the page mid-transition
+  useEffect(() => {
+    const element = isRoot ? document.documentElement : scopeRef.current
+    return () => {
+      if (element && appliedThemeRef.current) {
+        clearTheme(element, appliedThemeRef.current)
+      }
+      // Re-apply without a transition if StrictMode mounts the scope again
+      appliedThemeRef.current = undefined
+    }
+  }, [isRoot])
 
-  // Context value
+  // Action creators, created once per store so their context never changes
+  const actions = useMemo<ThemeActions>(
+    () => ({
+      setTheme: (newTheme) =>
+        dispatch({ type: 'SET_THEME', payload: newTheme }),
+      toggleTheme: () => dispatch({ type: 'TOGGLE_THEME' }),
+      cycleTheme: () => dispatch({ type: 'CYCLE_THEME' }),
+      registerTheme: (theme) =>
+        dispatch({ type: 'REGISTER_THEME', payload: theme }),
+      undo: () => dispatch({ type: 'UNDO' }),
+      redo: () => dispatch({ type: 'REDO' }),
+      reset: () => dispatch({ type: 'RESET' }),
+      setTransitionOrigin: (origin) => {
+        transitionOriginRef.current = origin
+      },
+    }),
+    [dispatch]
+  )
+
+  // Context value, a new object whenever the state changes
   const value: ThemeContextValue = {
-    theme: state.theme,
-    toggleTheme,
-    setTheme,
+    isRoot,
+    ...getThemeSnapshot(history),
+    ...actions,
   }
 
-  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+  const content = (
+    <ThemeActionsContext.Provider value={actions}>
+      <ThemeContext.Provider value={value}>
+        {isRoot ? (
+          children
+        ) : (
+          // Scope the CSS variables to this subtree instead of the document
+          <div
+            ref={scopeRef}
+            className={className ? `theme-scope ${className}` : 'theme-scope'}
+            data-theme={themeDefinition.name}
+          >
+            {children}
+          </div>
+        )}
+      </ThemeContext.Provider>
+    </ThemeActionsContext.Provider>
+  )
+
+  return isRoot ? (
+    <RootThemeContext.Provider value={value}>
+      {content}
+    </RootThemeContext.Provider>
+  ) : (
+    content
+  )
 }
@@ -0,0 +1,146 @@
+import type { Middleware } from '@/lib/middleware'
+
+// Declares a single changed value between two states, e.g. path 'present.theme'
+export interface StateChange {
+  path: string
+  prev: unknown
+  next: unknown
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  )
+}
+
+// Lists the values that changed, looking into nested plain objects
+// Arrays and other objects are compared by reference
+export function diffState(
+  prev: unknown,
+  next: unknown,
+  path = ''
+): StateChange[] {
+  if (Object.is(prev, next)) {
+    return []
+  }
+  if (!isPlainObject(prev) || !isPlainObject(next)) {
+    return [{ path, prev, next }]
+  }
+
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)])
+  return [...keys].flatMap((key) =>
+    diffState(prev[key], next[key], path ? `${path}.${key}` : key)
+  )
+}
+
+// Logs every action with the state before and after it
+export function createLogger<S, A extends { type: string }>(): Middleware<
+  S,
+  A
+> {
+  return ({ getState }) =>
+    (next) =>
+    (action) => {
+      const prevState = getState()
+      next(action)
+      console.groupCollapsed(`action ${action.type}`)
+      console.log('prev state', prevState)
+      console.log('action', action)
+      console.log('next state', getState())
+      console.groupEnd()
+    }
+}
+
+// Reports every action that reached the reducer, e.g. to an analytics service
+export function createAnalytics<S, A>(
+  track: (action: A, state: S) => void
+): Middleware<S, A> {
+  return ({ getState }) =>
+    (next) =>
+    (action) => {
+      next(action)
+      track(action, getState())
+    }
+}
+
+// Drops actions the validate callback returns an error message for,
+// warning about them in development only
+export function createValidator<S, A>(
+  validate: (action: A, state: S) => string | undefined
+): Middleware<S, A> {
+  return ({ getState }) =>
+    (next) =>
+    (action) => {
+      const error = validate(action, getState())
+      if (error !== undefined) {
+        if (import.meta.env.DEV) {
+          console.warn('Action rejected:', error, action)
+        }
+        return
+      }
+      next(action)
+    }
+}
+
+// Declares an action recorded by an inspector
+export interface InspectorEntry<S, A> {
+  id: number
+  action: A
+  prevState: S
+  nextState: S
+  changes: StateChange[]
+}
+
+// Records dispatched actions and can put the state back to any of them
+// Use one inspector per reducer, it travels the last one it was attached to
+export interface Inspector<S, A> {
+  middleware: Middleware<S, A>
+  getEntries: () => readonly InspectorEntry<S, A>[]
+  subscribe: (listener: () => void) => () => void
+  jumpTo: (entry: InspectorEntry<S, A>) => void
+  clear: () => void
+}
+
+export function createInspector<S, A>(limit = 50): Inspector<S, A> {
+  let entries: readonly InspectorEntry<S, A>[] = []
+  let nextId = 1
+  let replaceState: ((state: S) => void) | undefined
+  const listeners = new Set<() => void>()
+
+  const setEntries = (newEntries: readonly InspectorEntry<S, A>[]) => {
+    entries = newEntries
+    listeners.forEach((listener) => listener())
+  }
+
+  return {
+    middleware: (api) => {
+      replaceState = api.replaceState
+      return (next) => (action) => {
+        const prevState = api.getState()
+        next(action)
+        const nextState = api.getState()
+        setEntries(
+          [
+            ...entries,
+            {
+              id: nextId++,
+              action,
+              prevState,
+              nextState,
+              changes: diffState(prevState, nextState),
+            },
+          ].slice(-limit)
+        )
+      }
+    },
+    getEntries: () => entries,
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    jumpTo: (entry) => replaceState?.(entry.nextState),
+    clear: () => setEntries([]),
+  }
+}
@@ -0,0 +1,47 @@
+import type { ColorScheme } from './ThemeContext'
+import type { ThemeDefinition } from './themeRegistry'
+
+const darkSchemeQuery = '(prefers-color-scheme: dark)'
+
+// Reads the OS color scheme, falling back to light where matchMedia is unavailable
+export function getSystemTheme(): ColorScheme {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return 'light'
+  }
+  return window.matchMedia(darkSchemeQuery).matches ? 'dark' : 'light'
+}
+
+// Calls back with the new OS color scheme whenever it changes
+export function subscribeToSystemTheme(
+  onChange: (systemTheme: ColorScheme) => void
+) {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return () => {}
+  }
+
+  const mediaQuery = window.matchMedia(darkSchemeQuery)
+  const listener = (event: MediaQueryListEvent) =>
+    onChange(event.matches ? 'dark' : 'light')
+
+  mediaQuery.addEventListener('change', listener)
+  return () => mediaQuery.removeEventListener('change', listener)
+}
+
+// Sets the .dark class (and color-scheme for native controls) on an element
+// and the theme's tokens as inline CSS variables, overriding those in index.css
+export function applyTheme(element: HTMLElement, theme: ThemeDefinition) {
+  element.classList.toggle('dark', theme.colorScheme === 'dark')
+  element.style.colorScheme = theme.colorScheme
+  for (const [token, value] of Object.entries(theme.tokens)) {
+    element.style.setProperty(`--${token}`, value)
+  }
+}
+
+// Undoes applyTheme, so the element falls back to the tokens in index.css
+export function clearTheme(element: HTMLElement, theme: ThemeDefinition) {
+  element.classList.remove('dark')
+  element.style.removeProperty('color-scheme')
+  for (const token of Object.keys(theme.tokens)) {
+    element.style.removeProperty(`--${token}`)
+  }
+}
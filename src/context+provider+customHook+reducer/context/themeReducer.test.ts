@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createInitialThemeState,
+  getThemeDefinition,
+  themeHistoryReducer,
+  themeReducer,
+} from './themeReducer'
+import { createTheme } from './themeRegistry'
+import { createHistoryState } from './withHistory'
+import type {
+  ThemeAction,
+  ThemeHistoryAction,
+  ThemeHistoryState,
+  ThemeState,
+} from './ThemeContext'
+
+const oceanTheme = createTheme({
+  name: 'ocean',
+  label: 'Ocean',
+  colorScheme: 'dark',
+})
+
+function reduce(state: ThemeState, ...actions: ThemeAction[]) {
+  return actions.reduce(themeReducer, state)
+}
+
+function replay(state: ThemeHistoryState, ...actions: ThemeHistoryAction[]) {
+  return actions.reduce(themeHistoryReducer, state)
+}
+
+describe('themeReducer', () => {
+  const light = createInitialThemeState('light')
+
+  it('toggles between light and dark', () => {
+    expect(reduce(light, { type: 'TOGGLE_THEME' }).theme).toBe('dark')
+    expect(
+      reduce(light, { type: 'TOGGLE_THEME' }, { type: 'TOGGLE_THEME' }).theme
+    ).toBe('light')
+  })
+
+  it('toggles to the opposite of the color scheme shown', () => {
+    const sepia = reduce(light, { type: 'SET_THEME', payload: 'sepia' })
+    const system = {
+      ...createInitialThemeState('system'),
+      systemTheme: 'dark' as const,
+    }
+
+    expect(reduce(sepia, { type: 'TOGGLE_THEME' }).theme).toBe('dark')
+    expect(reduce(system, { type: 'TOGGLE_THEME' }).theme).toBe('light')
+  })
+
+  it('resolves system to the OS theme', () => {
+    const system = createInitialThemeState('system')
+
+    expect(getThemeDefinition(system).name).toBe(system.systemTheme)
+    expect(
+      getThemeDefinition(
+        reduce(system, { type: 'SET_SYSTEM_THEME', payload: 'dark' })
+      ).name
+    ).toBe('dark')
+  })
+
+  it('ignores themes that are not registered', () => {
+    expect(reduce(light, { type: 'SET_THEME', payload: 'ocean' })).toBe(light)
+  })
+
+  it('registers, selects and cycles through themes', () => {
+    const registered = reduce(
+      light,
+      { type: 'REGISTER_THEME', payload: oceanTheme },
+      { type: 'SET_THEME', payload: 'ocean' }
+    )
+
+    expect(registered.theme).toBe('ocean')
+    expect(registered.themes.map(({ name }) => name)).toEqual([
+      'light',
+      'dark',
+      'high-contrast',
+      'sepia',
+      'ocean',
+    ])
+    expect(reduce(registered, { type: 'CYCLE_THEME' }).theme).toBe('light')
+  })
+
+  it('replaces a theme registered under an existing name', () => {
+    const renamed = { ...oceanTheme, name: 'sepia', label: 'Warm' }
+    const state = reduce(light, { type: 'REGISTER_THEME', payload: renamed })
+
+    expect(state.themes).toHaveLength(4)
+    expect(state.themes[3].label).toBe('Warm')
+  })
+
+  it('follows the parent theme until a theme is picked', () => {
+    const inherited = createInitialThemeState('light', undefined, true)
+    const followed = reduce(inherited, {
+      type: 'INHERIT_THEME',
+      payload: 'dark',
+    })
+    const picked = reduce(
+      followed,
+      { type: 'SET_THEME', payload: 'sepia' },
+      { type: 'INHERIT_THEME', payload: 'light' }
+    )
+
+    expect(followed.theme).toBe('dark')
+    expect(picked.theme).toBe('sepia')
+  })
+})
+
+describe('themeHistoryReducer', () => {
+  const initial = createHistoryState(createInitialThemeState('light'))
+
+  it('undoes, redoes and resets theme choices', () => {
+    const changed = replay(
+      initial,
+      { type: 'TOGGLE_THEME' },
+      { type: 'SET_THEME', payload: 'sepia' }
+    )
+    const undone = themeHistoryReducer(changed, { type: 'UNDO' })
+    const redone = themeHistoryReducer(undone, { type: 'REDO' })
+
+    expect(undone.present.theme).toBe('dark')
+    expect(undone.future).toHaveLength(1)
+    expect(redone.present.theme).toBe('sepia')
+    expect(themeHistoryReducer(redone, { type: 'RESET' })).toEqual(initial)
+  })
+
+  it('does not record OS changes or repeated choices', () => {
+    const state = replay(
+      initial,
+      { type: 'SET_SYSTEM_THEME', payload: 'dark' },
+      { type: 'SET_THEME', payload: 'light' }
+    )
+
+    expect(state.past).toHaveLength(0)
+    expect(state.present.systemTheme).toBe('dark')
+  })
+
+  it('applies OS changes to past states too', () => {
+    const state = replay(
+      initial,
+      { type: 'SET_THEME', payload: 'system' },
+      { type: 'SET_SYSTEM_THEME', payload: 'dark' },
+      { type: 'UNDO' }
+    )
+
+    expect(state.present).toMatchObject({ theme: 'light', systemTheme: 'dark' })
+  })
+
+  it('keeps a bounded past', () => {
+    const toggles = Array.from(
+      { length: 30 },
+      (): ThemeHistoryAction => ({
+        type: 'TOGGLE_THEME',
+      })
+    )
+    const state = replay(initial, ...toggles)
+
+    expect(state.past).toHaveLength(20)
+  })
+})
@@ -1,4 +1,39 @@
-import type { Theme, ThemeAction, ThemeState } from './ThemeContext'
+import type {
+  Theme,
+  ThemeAction,
+  ThemeHistoryState,
+  ThemeSnapshot,
+  ThemeState,
+} from './ThemeContext'
+import { builtInThemes, type ThemeDefinition } from './themeRegistry'
+import { getSystemTheme } from './systemTheme'
+import { withHistory } from './withHistory'
+
+// Selector returning the definition of the theme shown
+// 'system' resolves to the OS theme; unknown names fall back to the first registered theme
+export function getThemeDefinition(state: ThemeState): ThemeDefinition {
+  const name = state.theme === 'system' ? state.systemTheme : state.theme
+  return (
+    state.themes.find((theme) => theme.name === name) ??
+    state.themes.find((theme) => theme.name === state.systemTheme) ??
+    state.themes[0]
+  )
+}
+
+// Selector returning what consumers of the theme read, e.g. through useThemeSelector
+export function getThemeSnapshot(history: ThemeHistoryState): ThemeSnapshot {
+  return {
+    theme: history.present.theme,
+    resolvedTheme: getThemeDefinition(history.present).name,
+    themes: history.present.themes,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
+
+function isSelectable(state: ThemeState, theme: Theme) {
+  return theme === 'system' || state.themes.some(({ name }) => name === theme)
+}
 
 // Reducer function
 export function themeReducer(
@@ -7,15 +42,50 @@ export function themeReducer(
 ): ThemeState {
   switch (action.type) {
     case 'TOGGLE_THEME':
+      // Toggling switches to the opposite color scheme of what is shown
       return {
         ...state,
-        theme: state.theme === 'light' ? 'dark' : 'light',
+        theme:
+          getThemeDefinition(state).colorScheme === 'light' ? 'dark' : 'light',
+        inherited: false,
       }
+    case 'CYCLE_THEME': {
+      // Cycling moves to the next registered theme, wrapping around
+      const index = state.themes.indexOf(getThemeDefinition(state))
+      return {
+        ...state,
+        theme: state.themes[(index + 1) % state.themes.length].name,
+        inherited: false,
+      }
+    }
     case 'SET_THEME':
+      // Names that are not registered, or already selected, are ignored
+      return isSelectable(state, action.payload) &&
+        (action.payload !== state.theme || state.inherited)
+        ? { ...state, theme: action.payload, inherited: false }
+        : state
+    case 'REGISTER_THEME': {
+      // Registering an existing name replaces that theme in place
+      const exists = state.themes.some(
+        ({ name }) => name === action.payload.name
+      )
       return {
         ...state,
-        theme: action.payload,
+        themes: exists
+          ? state.themes.map((theme) =>
+              theme.name === action.payload.name ? action.payload : theme
+            )
+          : [...state.themes, action.payload],
       }
+    }
+    case 'SET_SYSTEM_THEME':
+      return {
+        ...state,
+        systemTheme: action.payload,
+      }
+    case 'INHERIT_THEME':
+      // The parent's theme only applies until this scope picks its own
+      return state.inherited ? { ...state, theme: action.payload } : state
     default:
       return state
   }
@@ -23,9 +93,23 @@ export function themeReducer(
 
 // Initial state factory
 export function createInitialThemeState(
-  defaultTheme: Theme = 'light'
+  defaultTheme: Theme = 'light',
+  themes: readonly ThemeDefinition[] = builtInThemes,
+  inherited = false
 ): ThemeState {
   return {
     theme: defaultTheme,
+    systemTheme: getSystemTheme(),
+    themes,
+    inherited,
   }
 }
+
+// Reducer with undo/redo, recording only the choices a user makes
+// Registered themes, OS changes and inherited themes are applied across the history
+export const themeHistoryReducer = withHistory(themeReducer, {
+  track: (action: ThemeAction) =>
+    action.type === 'TOGGLE_THEME' ||
+    action.type === 'CYCLE_THEME' ||
+    action.type === 'SET_THEME',
+})
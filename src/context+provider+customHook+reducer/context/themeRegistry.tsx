@@ -0,0 +1,154 @@
+import type { ColorScheme, ThemeName } from './ThemeContext'
+
+// Declares the color tokens defined in index.css, without the leading --
+export type ThemeToken =
+  | 'background'
+  | 'foreground'
+  | 'card'
+  | 'card-foreground'
+  | 'popover'
+  | 'popover-foreground'
+  | 'primary'
+  | 'primary-foreground'
+  | 'secondary'
+  | 'secondary-foreground'
+  | 'muted'
+  | 'muted-foreground'
+  | 'accent'
+  | 'accent-foreground'
+  | 'destructive'
+  | 'destructive-foreground'
+  | 'border'
+  | 'input'
+  | 'ring'
+
+// HSL channels for every token, e.g. '222.2 84% 4.9%'
+export type ThemeTokens = Record<ThemeToken, string>
+
+// Declares a registered theme
+// colorScheme decides the .dark class and which way toggling goes
+export interface ThemeDefinition {
+  name: ThemeName
+  label: string
+  colorScheme: ColorScheme
+  tokens: ThemeTokens
+}
+
+// Same values as :root in index.css
+const lightTokens: ThemeTokens = {
+  background: '0 0% 100%',
+  foreground: '222.2 84% 4.9%',
+  card: '0 0% 100%',
+  'card-foreground': '222.2 84% 4.9%',
+  popover: '0 0% 100%',
+  'popover-foreground': '222.2 84% 4.9%',
+  primary: '221.2 83.2% 53.3%',
+  'primary-foreground': '210 40% 98%',
+  secondary: '210 40% 96%',
+  'secondary-foreground': '222.2 84% 4.9%',
+  muted: '210 40% 96%',
+  'muted-foreground': '215.4 16.3% 46.9%',
+  accent: '210 40% 96%',
+  'accent-foreground': '222.2 84% 4.9%',
+  destructive: '0 84.2% 60.2%',
+  'destructive-foreground': '210 40% 98%',
+  border: '214.3 31.8% 91.4%',
+  input: '214.3 31.8% 91.4%',
+  ring: '221.2 83.2% 53.3%',
+}
+
+// Same values as .dark in index.css
+const darkTokens: ThemeTokens = {
+  background: '222.2 84% 4.9%',
+  foreground: '210 40% 98%',
+  card: '222.2 84% 4.9%',
+  'card-foreground': '210 40% 98%',
+  popover: '222.2 84% 4.9%',
+  'popover-foreground': '210 40% 98%',
+  primary: '217.2 91.2% 59.8%',
+  'primary-foreground': '222.2 84% 4.9%',
+  secondary: '217.2 32.6% 17.5%',
+  'secondary-foreground': '210 40% 98%',
+  muted: '217.2 32.6% 17.5%',
+  'muted-foreground': '215 20.2% 65.1%',
+  accent: '217.2 32.6% 17.5%',
+  'accent-foreground': '210 40% 98%',
+  destructive: '0 62.8% 30.6%',
+  'destructive-foreground': '210 40% 98%',
+  border: '217.2 32.6% 17.5%',
+  input: '217.2 32.6% 17.5%',
+  ring: '224.3 76.3% 94.1%',
+}
+
+// Defines a theme, filling tokens it leaves out from light or dark
+export function createTheme(
+  definition: Omit<ThemeDefinition, 'tokens'> & {
+    tokens?: Partial<ThemeTokens>
+  }
+): ThemeDefinition {
+  const baseTokens =
+    definition.colorScheme === 'dark' ? darkTokens : lightTokens
+
+  return {
+    ...definition,
+    tokens: { ...baseTokens, ...definition.tokens },
+  }
+}
+
+// Built-in themes, in the order they are cycled through
+export const builtInThemes: readonly ThemeDefinition[] = [
+  createTheme({ name: 'light', label: 'Light', colorScheme: 'light' }),
+  createTheme({ name: 'dark', label: 'Dark', colorScheme: 'dark' }),
+  createTheme({
+    name: 'high-contrast',
+    label: 'High Contrast',
+    colorScheme: 'dark',
+    tokens: {
+      background: '0 0% 0%',
+      foreground: '0 0% 100%',
+      card: '0 0% 0%',
+      'card-foreground': '0 0% 100%',
+      popover: '0 0% 0%',
+      'popover-foreground': '0 0% 100%',
+      primary: '60 100% 50%',
+      'primary-foreground': '0 0% 0%',
+      secondary: '0 0% 15%',
+      'secondary-foreground': '0 0% 100%',
+      muted: '0 0% 15%',
+      'muted-foreground': '0 0% 85%',
+      accent: '180 100% 40%',
+      'accent-foreground': '0 0% 0%',
+      destructive: '0 100% 60%',
+      'destructive-foreground': '0 0% 0%',
+      border: '0 0% 100%',
+      input: '0 0% 100%',
+      ring: '60 100% 50%',
+    },
+  }),
+  createTheme({
+    name: 'sepia',
+    label: 'Sepia',
+    colorScheme: 'light',
+    tokens: {
+      background: '39 45% 92%',
+      foreground: '30 30% 18%',
+      card: '39 50% 95%',
+      'card-foreground': '30 30% 18%',
+      popover: '39 50% 95%',
+      'popover-foreground': '30 30% 18%',
+      primary: '25 55% 38%',
+      'primary-foreground': '39 45% 95%',
+      secondary: '36 35% 84%',
+      'secondary-foreground': '30 30% 18%',
+      muted: '36 35% 84%',
+      'muted-foreground': '30 15% 40%',
+      accent: '36 35% 84%',
+      'accent-foreground': '30 30% 18%',
+      destructive: '0 60% 45%',
+      'destructive-foreground': '39 45% 95%',
+      border: '35 25% 75%',
+      input: '35 25% 75%',
+      ring: '25 55% 38%',
+    },
+  }),
+]
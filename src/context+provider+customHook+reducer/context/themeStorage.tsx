@@ -0,0 +1,79 @@
+import type { Theme } from './ThemeContext'
+import { builtInThemes, type ThemeDefinition } from './themeRegistry'
+
+export const defaultThemeStorageKey = 'theme'
+
+// Persists the chosen theme; subscribe reports changes made in other tabs
+export interface ThemeStorage {
+  getTheme: () => Theme | null
+  setTheme: (theme: Theme) => void
+  subscribe: (onChange: (theme: Theme | null) => void) => () => void
+}
+
+// Any name is accepted, as palettes can be registered at runtime
+function isTheme(value: unknown): value is Theme {
+  return typeof value === 'string' && value !== ''
+}
+
+// LocalStorage adapter, synced across tabs through the storage event
+// Storage access can throw (e.g. blocked cookies), in which case nothing is persisted
+export function createLocalStorageThemeStorage(
+  storageKey = defaultThemeStorageKey
+): ThemeStorage {
+  return {
+    getTheme() {
+      try {
+        const stored = window.localStorage.getItem(storageKey)
+        return isTheme(stored) ? stored : null
+      } catch {
+        return null
+      }
+    },
+    setTheme(theme) {
+      try {
+        window.localStorage.setItem(storageKey, theme)
+      } catch {
+        // Keep the theme for this page only
+      }
+    },
+    subscribe(onChange) {
+      const listener = (event: StorageEvent) => {
+        // Key is null when another tab clears the whole storage
+        if (event.key === storageKey || event.key === null) {
+          onChange(isTheme(event.newValue) ? event.newValue : null)
+        }
+      }
+
+      window.addEventListener('storage', listener)
+      return () => window.removeEventListener('storage', listener)
+    },
+  }
+}
+
+export const localThemeStorage = createLocalStorageThemeStorage()
+
+// Inline script for index.html <head> that applies the stored theme before React mounts
+// Mirrors applyTheme for the themes passed in, so the page never flashes the default theme
+// Light and dark tokens already come from index.css, so only their class is set
+export function getThemeScript(
+  storageKey = defaultThemeStorageKey,
+  defaultTheme: Theme = 'light',
+  themes: readonly ThemeDefinition[] = builtInThemes
+) {
+  const themesByName = Object.fromEntries(
+    themes.map(({ name, colorScheme, tokens }) => [
+      name,
+      name === 'light' || name === 'dark'
+        ? { colorScheme }
+        : { colorScheme, tokens },
+    ])
+  )
+
+  return `(function(){try{var h=${JSON.stringify(
+    themesByName
+  )};var t=localStorage.getItem(${JSON.stringify(
+    storageKey
+  )});if(!h[t]&&t!=='system')t=${JSON.stringify(
+    defaultTheme
+  )};if(t==='system')t=matchMedia('(prefers-color-scheme: dark)').matches?'dark':'light';var d=h[t];if(!d)return;var e=document.documentElement;e.classList.toggle('dark',d.colorScheme==='dark');e.style.colorScheme=d.colorScheme;for(var n in d.tokens)e.style.setProperty('--'+n,d.tokens[n])}catch(e){}})()`
+}
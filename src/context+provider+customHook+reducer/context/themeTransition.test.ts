@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { runThemeTransition } from './themeTransition'
+
+afterEach(() => {
+  Reflect.deleteProperty(document, 'startViewTransition')
+})
+
+describe('runThemeTransition', () => {
+  it('applies the theme and cleans up when the browser skips the transition', async () => {
+    const skipped = Promise.reject(new DOMException('Skipped', 'AbortError'))
+    const update = vi.fn()
+    document.startViewTransition = vi.fn((callback) => {
+      callback?.()
+      return {
+        ready: skipped,
+        finished: skipped,
+        updateCallbackDone: Promise.resolve(),
+        skipTransition: () => {},
+      } as unknown as ViewTransition
+    })
+
+    runThemeTransition(
+      document.documentElement,
+      { transition: 'reveal', duration: 300 },
+      update
+    )
+    // Let the rejected promises settle; an unhandled rejection fails the run
+    await new Promise((resolve) => setTimeout(resolve))
+
+    expect(update).toHaveBeenCalledOnce()
+    expect(document.documentElement).not.toHaveClass('theme-reveal')
+  })
+})
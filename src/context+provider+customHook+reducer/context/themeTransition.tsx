@@ -0,0 +1,100 @@
+// Declares how a theme change is animated
+// 'fade' cross-fades the page, 'reveal' grows the new theme in a circle from the toggle
+export type ThemeTransition = 'none' | 'fade' | 'reveal'
+
+// Declares the viewport point a reveal starts from
+export interface TransitionOrigin {
+  x: number
+  y: number
+}
+
+export interface ThemeTransitionOptions {
+  transition: ThemeTransition
+  duration: number
+  origin?: TransitionOrigin
+}
+
+export function prefersReducedMotion() {
+  return (
+    typeof window !== 'undefined' &&
+    !!window.matchMedia &&
+    window.matchMedia('(prefers-reduced-motion: reduce)').matches
+  )
+}
+
+// Fallback for browsers without View Transitions, and for nested scopes:
+// transitions colors with CSS while the new theme is applied
+function transitionWithCss(
+  element: HTMLElement,
+  duration: number,
+  update: () => void
+) {
+  element.style.setProperty('--theme-transition-duration', `${duration}ms`)
+  element.classList.add('theme-transition')
+  update()
+  window.setTimeout(
+    () => element.classList.remove('theme-transition'),
+    duration
+  )
+}
+
+// Applies a theme change through the configured transition
+// Runs update straight away when motion is reduced or there is nothing to animate
+export function runThemeTransition(
+  element: HTMLElement,
+  { transition, duration, origin }: ThemeTransitionOptions,
+  update: () => void
+) {
+  if (transition === 'none' || prefersReducedMotion()) {
+    update()
+    return
+  }
+
+  // View Transitions snapshot the whole page, so only the root uses them
+  const root = document.documentElement
+  if (element !== root || !document.startViewTransition) {
+    transitionWithCss(element, duration, update)
+    return
+  }
+
+  root.style.setProperty('--theme-transition-duration', `${duration}ms`)
+  if (transition === 'fade') {
+    document.startViewTransition(update)
+    return
+  }
+
+  // Reveal from the toggle, or the middle of the viewport without one
+  const { x, y } = origin ?? {
+    x: window.innerWidth / 2,
+    y: window.innerHeight / 2,
+  }
+  const radius = Math.hypot(
+    Math.max(x, window.innerWidth - x),
+    Math.max(y, window.innerHeight - y)
+  )
+
+  root.classList.add('theme-reveal')
+  const viewTransition = document.startViewTransition(update)
+  // ready rejects when the browser skips the transition (hidden page, another transition
+  // starting); the theme is still applied, there is just nothing to animate
+  viewTransition.ready
+    .then(() =>
+      root.animate(
+        {
+          clipPath: [
+            `circle(0px at ${x}px ${y}px)`,
+            `circle(${radius}px at ${x}px ${y}px)`,
+          ],
+        },
+        {
+          duration,
+          easing: 'ease-in-out',
+          pseudoElement: '::view-transition-new(root)',
+        }
+      )
+    )
+    .catch(() => {})
+  viewTransition.finished
+    .finally(() => root.classList.remove('theme-reveal'))
+    .catch(() => {})
+}
@@ -1,12 +1,20 @@
-import { useContext } from 'react'
-import { ThemeContext, type ThemeContextValue } from './ThemeContext'
+import {
+  ThemeContext,
+  RootThemeContext,
+  type ThemeContextValue,
+} from './ThemeContext'
 
-export function useTheme(): ThemeContextValue {
-  const context = useContext(ThemeContext)
+interface UseThemeOptions {
+  // 'root' reads the outermost provider instead of the nearest one
+  scope?: 'nearest' | 'root'
+}
 
-  if (context === undefined) {
-    throw new Error('useTheme must be used within a ThemeProvider')
-  }
+export function useTheme({
+  scope = 'nearest',
+}: UseThemeOptions = {}): ThemeContextValue {
+  // Throws outside of a ThemeProvider
+  const nearest = ThemeContext.useContext()
+  const root = RootThemeContext.useOptionalContext()
 
-  return context
+  return scope === 'root' && root !== undefined ? root : nearest
 }
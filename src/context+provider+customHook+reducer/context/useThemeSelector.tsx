@@ -0,0 +1,17 @@
+import {
+  ThemeActionsContext,
+  ThemeStore,
+  type ThemeSnapshot,
+} from './ThemeContext'
+import { getThemeSnapshot } from './themeReducer'
+
+// Re-renders only when the selected value changes, unlike useTheme
+// Return primitives or references from the snapshot, not new objects
+export function useThemeSelector<R>(selector: (snapshot: ThemeSnapshot) => R) {
+  return ThemeStore.useSelector((history) =>
+    selector(getThemeSnapshot(history))
+  )
+}
+
+// Action creators only; never re-renders on theme changes
+export const useThemeActions = ThemeActionsContext.useContext
@@ -0,0 +1,91 @@
+// Declares the state kept by a reducer wrapped in withHistory
+// past is ordered oldest first, future nearest first
+export interface HistoryState<S> {
+  past: S[]
+  present: S
+  future: S[]
+  initial: S
+}
+
+// Declares the actions withHistory adds to a reducer's own actions
+export type HistoryAction<A> =
+  | A
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'RESET' }
+
+export interface HistoryOptions<A> {
+  // Most states kept in the past stack, older ones are dropped
+  limit?: number
+  // Whether an action is recorded as an undoable step
+  // Other actions are applied to every state in the history, e.g. OS preference changes
+  track?: (action: A) => boolean
+}
+
+// Initial state factory
+export function createHistoryState<S>(present: S): HistoryState<S> {
+  return { past: [], present, future: [], initial: present }
+}
+
+// Wraps a reducer so its steps can be undone, redone and reset
+export function withHistory<S, A extends { type: string }>(
+  reducer: (state: S, action: A) => S,
+  { limit = 20, track = () => true }: HistoryOptions<A> = {}
+) {
+  return function historyReducer(
+    state: HistoryState<S>,
+    action: HistoryAction<A>
+  ): HistoryState<S> {
+    switch (action.type) {
+      case 'UNDO': {
+        if (state.past.length === 0) {
+          return state
+        }
+        return {
+          ...state,
+          past: state.past.slice(0, -1),
+          present: state.past[state.past.length - 1],
+          future: [state.present, ...state.future],
+        }
+      }
+      case 'REDO': {
+        if (state.future.length === 0) {
+          return state
+        }
+        return {
+          ...state,
+          past: [...state.past, state.present],
+          present: state.future[0],
+          future: state.future.slice(1),
+        }
+      }
+      case 'RESET':
+        return createHistoryState(state.initial)
+    }
+
+    // Anything else is one of the wrapped reducer's own actions
+    const innerAction = action as A
+    const present = reducer(state.present, innerAction)
+
+    if (!track(innerAction)) {
+      const apply = (entry: S) => reducer(entry, innerAction)
+      return {
+        past: state.past.map(apply),
+        present,
+        future: state.future.map(apply),
+        initial: apply(state.initial),
+      }
+    }
+
+    // Actions that change nothing are not recorded
+    if (present === state.present) {
+      return state
+    }
+    return {
+      ...state,
+      past: [...state.past, state.present].slice(-limit),
+      present,
+      future: state.future.length > 0 ? [] : state.future,
+    }
+  }
+}
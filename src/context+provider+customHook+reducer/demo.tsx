@@ -1,11 +1,80 @@
 import { ThemeProvider } from './context/ThemeProvider'
 import { ThemeToggle } from './components/ThemeToggle'
+import { RegisterThemeButton } from './components/RegisterThemeButton'
+import { ThemeHistoryControls } from './components/ThemeHistoryControls'
+import { ReducerInspector } from './components/ReducerInspector'
+import { createTheme } from './context/themeRegistry'
+import {
+  createInspector,
+  createLogger,
+  createValidator,
+} from './context/middleware'
+import type {
+  ThemeHistoryAction,
+  ThemeHistoryState,
+  ThemeMiddleware,
+} from './context/ThemeContext'
+
+// A palette defined at runtime, tokens it leaves out come from dark
+const oceanTheme = createTheme({
+  name: 'ocean',
+  label: 'Ocean',
+  colorScheme: 'dark',
+  tokens: {
+    background: '210 60% 12%',
+    foreground: '190 40% 92%',
+    primary: '185 75% 45%',
+    'primary-foreground': '210 60% 12%',
+    border: '205 45% 25%',
+    input: '205 45% 25%',
+    ring: '185 75% 45%',
+  },
+})
+
+// Records the page provider's actions for the inspector panel
+const themeInspector = createInspector<ThemeHistoryState, ThemeHistoryAction>()
+
+// Middleware is defined once so the provider's dispatch stays stable
+// The logger only runs in development, import.meta.env.DEV is false in builds
+const themeMiddleware: readonly ThemeMiddleware[] = [
+  ...(import.meta.env.DEV
+    ? [createLogger<ThemeHistoryState, ThemeHistoryAction>()]
+    : []),
+  createValidator((action, state) =>
+    action.type === 'SET_THEME' &&
+    action.payload !== 'system' &&
+    !state.present.themes.some(({ name }) => name === action.payload)
+      ? `Theme "${action.payload}" is not registered`
+      : undefined
+  ),
+  themeInspector.middleware,
+]
 
 function demo() {
   return (
-    <ThemeProvider defaultTheme="light">
+    <ThemeProvider
+      defaultTheme="light"
+      middleware={themeMiddleware}
+      transition="reveal"
+    >
       <h1>Context + Provider + CustomHook + Reducer</h1>
       <ThemeToggle />
+      <ThemeHistoryControls />
+      <RegisterThemeButton theme={oceanTheme} />
+
+      {/* overrides the page theme for this panel only */}
+      <ThemeProvider defaultTheme="dark" className="card" transition="fade">
+        <h2>Dark Preview</h2>
+        <ThemeToggle />
+      </ThemeProvider>
+
+      {/* follows the page theme until a theme is picked here */}
+      <ThemeProvider className="card">
+        <h2>Inherited Preview</h2>
+        <ThemeToggle />
+      </ThemeProvider>
+
+      <ReducerInspector inspector={themeInspector} />
     </ThemeProvider>
   )
 }
@@ -1,17 +1,29 @@
 import { useTheme } from '../context/useTheme'
 
 export function ThemeToggle() {
-  const { theme, toggleTheme } = useTheme()
+  const { theme, resolvedTheme, toggleTheme, setTheme } = useTheme()
 
   return (
-    <button
-      onClick={toggleTheme}
-      className={`theme-toggle theme-toggle--${theme}`}
-      aria-label={`Switch to ${theme === 'light' ? 'dark' : 'light'} theme`}
-    >
-      {/* current is light, display as dark so click change to dark */}
-      {theme === 'light' ? '🌙' : '☀️'}
-      <span>{theme === 'light' ? 'Dark Mode' : 'Light Mode'}</span>
-    </button>
+    <div className="theme-toggle-group">
+      <button
+        onClick={toggleTheme}
+        className={`theme-toggle theme-toggle--${resolvedTheme}`}
+        aria-label={`Switch to ${
+          resolvedTheme === 'light' ? 'dark' : 'light'
+        } theme`}
+      >
+        {/* current is light, display as dark so click change to dark */}
+        {resolvedTheme === 'light' ? '🌙' : '☀️'}
+        <span>{resolvedTheme === 'light' ? 'Dark Mode' : 'Light Mode'}</span>
+      </button>
+      {/* follow the OS setting instead of a fixed theme */}
+      <button
+        onClick={() => setTheme('system')}
+        aria-pressed={theme === 'system'}
+      >
+        🖥️
+        <span>System</span>
+      </button>
+    </div>
   )
 }
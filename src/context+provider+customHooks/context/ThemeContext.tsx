@@ -1,13 +1,17 @@
-import React from 'react'
+import { createStrictContext } from '@/lib/createContext'
 
-export type Theme = 'light' | 'dark'
+// 'system' follows the OS prefers-color-scheme setting
+export type Theme = 'light' | 'dark' | 'system'
+
+// The theme actually shown once 'system' is resolved
+export type ResolvedTheme = 'light' | 'dark'
 
 export interface ThemeContextValue {
   theme: Theme
+  resolvedTheme: ResolvedTheme
   toggleTheme: () => void
   setTheme: (theme: Theme) => void
 }
 
-export const ThemeContext = React.createContext<ThemeContextValue | undefined>(
-  undefined
-)
+// the factory gives the Provider and a useTheme that throws outside of it
+export const ThemeContext = createStrictContext<ThemeContextValue>('Theme')
@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { ThemeProvider } from './ThemeProvider'
+import { useTheme } from './useTheme'
+import { ThemeToggle } from '../components/ThemeToggle'
+
+function ThemeName() {
+  const { theme, resolvedTheme } = useTheme()
+  return (
+    <output>
+      {theme}:{resolvedTheme}
+    </output>
+  )
+}
+
+describe('useTheme', () => {
+  it('throws outside of a ThemeProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    expect(() => render(<ThemeName />)).toThrow(
+      'useTheme must be used within a ThemeProvider'
+    )
+  })
+})
+
+describe('ThemeProvider', () => {
+  it('toggles, applies and persists the theme', async () => {
+    render(
+      <ThemeProvider defaultTheme="light">
+        <ThemeToggle />
+        <ThemeName />
+      </ThemeProvider>
+    )
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Switch to dark theme' })
+    )
+
+    expect(screen.getByRole('status')).toHaveTextContent('dark:dark')
+    expect(document.documentElement).toHaveClass('dark')
+    expect(localStorage.getItem('theme-light-dark')).toBe('dark')
+  })
+
+  it("leaves the reducer variant's stored theme alone", async () => {
+    localStorage.setItem('theme', 'sepia')
+    render(
+      <ThemeProvider>
+        <ThemeToggle />
+      </ThemeProvider>
+    )
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Switch to dark theme' })
+    )
+
+    expect(localStorage.getItem('theme')).toBe('sepia')
+  })
+
+  it('follows the OS theme in system mode', async () => {
+    render(
+      <ThemeProvider defaultTheme="dark">
+        <ThemeToggle />
+        <ThemeName />
+      </ThemeProvider>
+    )
+
+    await userEvent.click(screen.getByRole('button', { name: /System/ }))
+
+    // jsdom has no matchMedia, so the OS theme reads as light
+    expect(screen.getByRole('status')).toHaveTextContent('system:light')
+    expect(document.documentElement).not.toHaveClass('dark')
+  })
+
+  it('takes the theme off <html> on unmount', () => {
+    const { unmount } = render(
+      <ThemeProvider defaultTheme="dark">{null}</ThemeProvider>
+    )
+    expect(document.documentElement).toHaveClass('dark')
+
+    unmount()
+
+    expect(document.documentElement).not.toHaveClass('dark')
+    expect(document.documentElement.style.colorScheme).toBe('')
+  })
+})
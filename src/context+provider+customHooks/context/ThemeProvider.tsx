@@ -1,33 +1,71 @@
-import { useState, useCallback, type ReactNode } from 'react'
+import { useState, useCallback, useEffect, type ReactNode } from 'react'
 import {
   ThemeContext,
   type Theme,
   type ThemeContextValue,
 } from './ThemeContext'
+import { applyTheme, clearTheme, useSystemTheme } from './systemTheme'
+import { localThemeStorage, type ThemeStorage } from './themeStorage'
 
 interface ThemeProviderProps {
   children: ReactNode
   defaultTheme?: Theme
+  // where the chosen theme is persisted, localStorage by default
+  storage?: ThemeStorage
 }
 
 export function ThemeProvider({
   children,
   defaultTheme = 'light',
+  storage = localThemeStorage,
 }: ThemeProviderProps) {
-  // manages state
-  const [theme, setThemeState] = useState<Theme>(defaultTheme)
+  // manages state, starting from the persisted theme if there is one
+  const [theme, setThemeState] = useState<Theme>(
+    () => storage.getTheme() ?? defaultTheme
+  )
   const setTheme = useCallback((newTheme: Theme) => {
     setThemeState(newTheme)
   }, [])
 
+  // persist every change
+  useEffect(() => {
+    storage.setTheme(theme)
+  }, [storage, theme])
+
+  // pick up changes made in other tabs
+  useEffect(
+    () =>
+      storage.subscribe((storedTheme) => {
+        setThemeState(storedTheme ?? defaultTheme)
+      }),
+    [storage, defaultTheme]
+  )
+
+  // 'system' is resolved against the live OS preference
+  const systemTheme = useSystemTheme()
+  const resolvedTheme = theme === 'system' ? systemTheme : theme
+
+  // sync the resolved theme to <html> so the .dark tokens in index.css apply
+  // and take it off again on unmount, so it doesn't leak into other pages
+  useEffect(() => {
+    const root = document.documentElement
+    applyTheme(root, resolvedTheme)
+    return () => clearTheme(root)
+  }, [resolvedTheme])
+
   // a method child can use to update provider state
+  // toggling from 'system' switches to the opposite of what is shown
   const toggleTheme = useCallback(() => {
-    setThemeState((prevTheme) => (prevTheme === 'light' ? 'dark' : 'light'))
-  }, [])
+    setThemeState((prevTheme) => {
+      const shown = prevTheme === 'system' ? systemTheme : prevTheme
+      return shown === 'light' ? 'dark' : 'light'
+    })
+  }, [systemTheme])
 
   // get ThemeContextValue pass to provider
   const value: ThemeContextValue = {
     theme,
+    resolvedTheme,
     toggleTheme,
     setTheme,
   }
@@ -0,0 +1,43 @@
+import { useSyncExternalStore } from 'react'
+import type { ResolvedTheme } from './ThemeContext'
+
+const darkSchemeQuery = '(prefers-color-scheme: dark)'
+
+// reads the OS color scheme, falling back to light where matchMedia is unavailable
+export function getSystemTheme(): ResolvedTheme {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return 'light'
+  }
+  return window.matchMedia(darkSchemeQuery).matches ? 'dark' : 'light'
+}
+
+function subscribeToSystemTheme(onChange: () => void) {
+  if (typeof window === 'undefined' || !window.matchMedia) {
+    return () => {}
+  }
+
+  const mediaQuery = window.matchMedia(darkSchemeQuery)
+  mediaQuery.addEventListener('change', onChange)
+  return () => mediaQuery.removeEventListener('change', onChange)
+}
+
+// subscribes to the OS color scheme so 'system' updates live
+export function useSystemTheme(): ResolvedTheme {
+  return useSyncExternalStore(
+    subscribeToSystemTheme,
+    getSystemTheme,
+    () => 'light'
+  )
+}
+
+// sets the .dark class (and color-scheme for native controls) on an element
+export function applyTheme(element: HTMLElement, resolvedTheme: ResolvedTheme) {
+  element.classList.toggle('dark', resolvedTheme === 'dark')
+  element.style.colorScheme = resolvedTheme
+}
+
+// undoes applyTheme, e.g. when the provider unmounts
+export function clearTheme(element: HTMLElement) {
+  element.classList.remove('dark')
+  element.style.removeProperty('color-scheme')
+}
@@ -0,0 +1,65 @@
+import type { Theme } from './ThemeContext'
+
+// separate from the reducer variant's 'theme' key, whose registry themes this variant doesn't know
+export const defaultThemeStorageKey = 'theme-light-dark'
+
+// persists the chosen theme; subscribe reports changes made in other tabs
+export interface ThemeStorage {
+  getTheme: () => Theme | null
+  setTheme: (theme: Theme) => void
+  subscribe: (onChange: (theme: Theme | null) => void) => () => void
+}
+
+function isTheme(value: unknown): value is Theme {
+  return value === 'light' || value === 'dark' || value === 'system'
+}
+
+// localStorage adapter, synced across tabs through the storage event
+// storage access can throw (e.g. blocked cookies), in which case nothing is persisted
+export function createLocalStorageThemeStorage(
+  storageKey = defaultThemeStorageKey
+): ThemeStorage {
+  return {
+    getTheme() {
+      try {
+        const stored = window.localStorage.getItem(storageKey)
+        return isTheme(stored) ? stored : null
+      } catch {
+        return null
+      }
+    },
+    setTheme(theme) {
+      try {
+        window.localStorage.setItem(storageKey, theme)
+      } catch {
+        // keep the theme for this page only
+      }
+    },
+    subscribe(onChange) {
+      const listener = (event: StorageEvent) => {
+        // key is null when another tab clears the whole storage
+        if (event.key === storageKey || event.key === null) {
+          onChange(isTheme(event.newValue) ? event.newValue : null)
+        }
+      }
+
+      window.addEventListener('storage', listener)
+      return () => window.removeEventListener('storage', listener)
+    },
+  }
+}
+
+export const localThemeStorage = createLocalStorageThemeStorage()
+
+// inline script for index.html <head> that applies the stored theme before React mounts
+// mirrors applyTheme, so the page never flashes the default theme
+export function getThemeScript(
+  storageKey = defaultThemeStorageKey,
+  defaultTheme: Theme = 'light'
+) {
+  return `(function(){try{var t=localStorage.getItem(${JSON.stringify(
+    storageKey
+  )});if(t!=='light'&&t!=='dark'&&t!=='system')t=${JSON.stringify(
+    defaultTheme
+  )};if(t==='system')t=matchMedia('(prefers-color-scheme: dark)').matches?'dark':'light';var e=document.documentElement;e.classList.toggle('dark',t==='dark');e.style.colorScheme=t}catch(e){}})()`
+}
@@ -1,12 +1,4 @@
-import { useContext } from 'react'
-import { ThemeContext, type ThemeContextValue } from './ThemeContext'
+import { ThemeContext } from './ThemeContext'
 
-export function useTheme(): ThemeContextValue {
-  const context = useContext(ThemeContext)
-
-  if (context === undefined) {
-    throw new Error('useTheme must be used within a ThemeProvider')
-  }
-
-  return context
-}
+// throws "useTheme must be used within a ThemeProvider" outside of the provider
+export const useTheme = ThemeContext.useContext
@@ -0,0 +1,194 @@
+import {
+  createContext,
+  useContext,
+  useMemo,
+  useState,
+  useSyncExternalStore,
+  type Dispatch,
+  type ReactNode,
+} from 'react'
+import { applyMiddleware, type Middleware } from './middleware'
+
+/**
+ * Typed context whose hook throws outside of its provider
+ * `useOptionalContext` returns undefined instead, e.g. to detect a parent provider
+ */
+export interface StrictContext<T> {
+  Context: React.Context<T | undefined>
+  Provider: React.Provider<T | undefined>
+  useContext: () => T
+  useOptionalContext: () => T | undefined
+  useSelector: <R>(selector: (value: T) => R) => R
+}
+
+/**
+ * Names used in the error thrown outside of the provider
+ * Defaults to `use<name>` and `<name>Provider`
+ */
+export interface StrictContextNames {
+  hookName?: string
+  providerName?: string
+}
+
+/**
+ * Creates a context that has no default value
+ * The error names the hook and provider after `name`, e.g. "useTheme must be used within a ThemeProvider"
+ *
+ * @param name - Name of the context, e.g. 'Theme'
+ * @param names - Hook and provider names to use in the error instead
+ * @returns Context, its provider and hooks to read it
+ */
+export function createStrictContext<T>(
+  name: string,
+  {
+    hookName = `use${name}`,
+    providerName = `${name}Provider`,
+  }: StrictContextNames = {}
+): StrictContext<T> {
+  const Context = createContext<T | undefined>(undefined)
+  Context.displayName = name
+
+  function useStrictContext() {
+    const value = useContext(Context)
+
+    if (value === undefined) {
+      throw new Error(`${hookName} must be used within a ${providerName}`)
+    }
+
+    return value
+  }
+
+  return {
+    Context,
+    Provider: Context.Provider,
+    useContext: useStrictContext,
+    useOptionalContext: () => useContext(Context),
+    useSelector: (selector) => selector(useStrictContext()),
+  }
+}
+
+/**
+ * State container the components of a reducer context subscribe to
+ */
+interface ReducerStore<S> {
+  getState: () => S
+  replaceState: (state: S) => void
+  subscribe: (listener: () => void) => () => void
+}
+
+const noMiddleware: readonly never[] = []
+
+function createReducerStore<S>(initialState: S): ReducerStore<S> {
+  let state = initialState
+  const listeners = new Set<() => void>()
+
+  return {
+    getState: () => state,
+    replaceState: (newState) => {
+      state = newState
+      listeners.forEach((listener) => listener())
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+  }
+}
+
+/**
+ * Props of a provider created by `createReducerContext`
+ * `initialArg` is only read on mount; keep `middleware` a stable array (e.g. module level) so dispatch keeps its identity
+ */
+export interface ReducerProviderProps<S, A, I> {
+  initialArg: I
+  middleware?: readonly Middleware<S, A>[]
+  children: ReactNode
+}
+
+/**
+ * Value a reducer context provides; both parts keep their identity for the provider's lifetime
+ */
+export interface ReducerContextValue<S, A> {
+  store: ReducerStore<S>
+  dispatch: Dispatch<A>
+}
+
+/**
+ * Typed context holding a reducer's state and dispatch
+ * `useSelector` only re-renders when the selected value changes, so selectors should
+ * return primitives or references kept in the state rather than new objects
+ */
+export interface ReducerContext<S, A, I> {
+  Context: React.Context<ReducerContextValue<S, A> | undefined>
+  Provider: (props: ReducerProviderProps<S, A, I>) => ReactNode
+  useStore: () => readonly [S, Dispatch<A>]
+  useDispatch: () => Dispatch<A>
+  useSelector: <R>(selector: (state: S) => R) => R
+}
+
+/**
+ * Options of `createReducerContext`
+ * `init` creates the initial state from the provider's `initialArg`
+ */
+export interface ReducerContextOptions<S, A, I> {
+  name: string
+  reducer: (state: S, action: A) => S
+  init: (initialArg: I) => S
+}
+
+/**
+ * Creates a context whose provider owns a reducer
+ * The state lives in an external store, so components subscribe to just the slice they select
+ * Every provider keeps its own state; hooks read the nearest one
+ *
+ * @param options - Name, reducer and initial state factory
+ * @returns Context, a provider running the reducer and hooks to read it
+ */
+export function createReducerContext<S, A, I>({
+  name,
+  reducer,
+  init,
+}: ReducerContextOptions<S, A, I>): ReducerContext<S, A, I> {
+  const {
+    Context,
+    Provider: ContextProvider,
+    useContext: useReducerContext,
+  } = createStrictContext<ReducerContextValue<S, A>>(name)
+
+  function Provider({
+    initialArg,
+    middleware = noMiddleware,
+    children,
+  }: ReducerProviderProps<S, A, I>) {
+    const [store] = useState(() => createReducerStore(init(initialArg)))
+    const dispatch = useMemo(
+      () =>
+        applyMiddleware(store, middleware, (action) =>
+          store.replaceState(reducer(store.getState(), action))
+        ),
+      [store, middleware]
+    )
+    const value = useMemo(() => ({ store, dispatch }), [store, dispatch])
+
+    return <ContextProvider value={value}>{children}</ContextProvider>
+  }
+  Provider.displayName = `${name}Provider`
+
+  function useSelector<R>(selector: (state: S) => R) {
+    const { store } = useReducerContext()
+    const getSelection = () => selector(store.getState())
+
+    return useSyncExternalStore(store.subscribe, getSelection, getSelection)
+  }
+
+  return {
+    Context,
+    Provider,
+    useStore: () => [
+      useSelector((state) => state),
+      useReducerContext().dispatch,
+    ],
+    useDispatch: () => useReducerContext().dispatch,
+    useSelector,
+  }
+}
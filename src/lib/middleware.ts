@@ -0,0 +1,43 @@
+/**
+ * What a middleware can reach
+ * `getState` returns the state after every action dispatched so far;
+ * `replaceState` swaps the whole state without running the reducer or middleware
+ */
+export interface MiddlewareAPI<S, A> {
+  getState: () => S
+  dispatch: (action: A) => void
+  replaceState: (state: S) => void
+}
+
+/**
+ * Middleware called with each action before it reaches the reducer
+ * Calling `next` passes the action on, not calling it drops the action
+ */
+export type Middleware<S, A> = (
+  api: MiddlewareAPI<S, A>
+) => (next: (action: A) => void) => (action: A) => void
+
+/**
+ * Chains middleware in front of a dispatch function, applied left to right
+ *
+ * @param store - Reads and replaces the current state
+ * @param middleware - Middleware to run actions through
+ * @param reducerDispatch - Applies an action that got through every middleware
+ * @returns Dispatch running actions through the middleware
+ */
+export function applyMiddleware<S, A>(
+  store: Omit<MiddlewareAPI<S, A>, 'dispatch'>,
+  middleware: readonly Middleware<S, A>[],
+  reducerDispatch: (action: A) => void
+) {
+  const api: MiddlewareAPI<S, A> = {
+    ...store,
+    dispatch: (action) => enhancedDispatch(action),
+  }
+
+  const enhancedDispatch = middleware.reduceRight<(action: A) => void>(
+    (next, current) => current(api)(next),
+    reducerDispatch
+  )
+  return enhancedDispatch
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import type { Middleware } from './middleware'
+import { useEnhancedReducer } from './useEnhancedReducer'
+
+type CounterAction = { type: 'increment' } | { type: 'set'; payload: number }
+
+function counterReducer(state: number, action: CounterAction) {
+  return action.type === 'increment' ? state + 1 : action.payload
+}
+
+const init = (count: number) => count
+
+describe('useEnhancedReducer', () => {
+  it('runs actions through the middleware in order before the reducer', () => {
+    const calls: string[] = []
+    const record =
+      (name: string): Middleware<number, CounterAction> =>
+      ({ getState }) =>
+      (next) =>
+      (action) => {
+        calls.push(`${name} before ${getState()}`)
+        next(action)
+        calls.push(`${name} after ${getState()}`)
+      }
+    const middleware = [record('outer'), record('inner')]
+
+    const { result } = renderHook(() =>
+      useEnhancedReducer(counterReducer, 0, init, middleware)
+    )
+    act(() => result.current[1]({ type: 'increment' }))
+
+    expect(result.current[0]).toBe(1)
+    expect(calls).toEqual([
+      'outer before 0',
+      'inner before 0',
+      'inner after 1',
+      'outer after 1',
+    ])
+  })
+
+  it('drops actions a middleware does not pass on', () => {
+    const rejectNegative: Middleware<number, CounterAction> =
+      () => (next) => (action) => {
+        if (action.type !== 'set' || action.payload >= 0) {
+          next(action)
+        }
+      }
+    const middleware = [rejectNegative]
+
+    const { result } = renderHook(() =>
+      useEnhancedReducer(counterReducer, 5, init, middleware)
+    )
+    act(() => result.current[1]({ type: 'set', payload: -1 }))
+
+    expect(result.current[0]).toBe(5)
+  })
+
+  it('lets middleware replace the state without running the reducer', () => {
+    let replaceState: ((state: number) => void) | undefined
+    const capture: Middleware<number, CounterAction> = (api) => {
+      replaceState = api.replaceState
+      return (next) => next
+    }
+    const middleware = [capture]
+
+    const { result } = renderHook(() =>
+      useEnhancedReducer(counterReducer, 0, init, middleware)
+    )
+    act(() => replaceState?.(42))
+    expect(result.current[0]).toBe(42)
+
+    act(() => result.current[1]({ type: 'increment' }))
+    expect(result.current[0]).toBe(43)
+  })
+
+  it('keeps dispatch stable across renders', () => {
+    const { result, rerender } = renderHook(() =>
+      useEnhancedReducer(counterReducer, 0, init)
+    )
+    const [, dispatch] = result.current
+
+    act(() => dispatch({ type: 'increment' }))
+    rerender()
+
+    expect(result.current[1]).toBe(dispatch)
+  })
+})
@@ -0,0 +1,60 @@
+import { useMemo, useReducer, useRef } from 'react'
+import { applyMiddleware, type Middleware } from './middleware'
+
+/**
+ * Actions the wrapped reducer receives
+ */
+type EnhancedAction<S, A> = { action: A } | { replace: S }
+
+const noMiddleware: readonly never[] = []
+
+/**
+ * useReducer whose dispatch runs through middleware, applied left to right
+ * Keep the middleware array stable (e.g. module level) so dispatch keeps its identity
+ *
+ * @param reducer - Reducer applied to every action that gets through the middleware
+ * @param initialArg - Argument passed to `init`
+ * @param init - Creates the initial state
+ * @param middleware - Middleware to run actions through
+ * @returns Current state and the enhanced dispatch
+ */
+export function useEnhancedReducer<S, A, I>(
+  reducer: (state: S, action: A) => S,
+  initialArg: I,
+  init: (arg: I) => S,
+  middleware: readonly Middleware<S, A>[] = noMiddleware
+): [S, (action: A) => void] {
+  const enhancedReducer = useMemo(
+    () =>
+      (state: S, enhanced: EnhancedAction<S, A>): S =>
+        'replace' in enhanced
+          ? enhanced.replace
+          : reducer(state, enhanced.action),
+    [reducer]
+  )
+  const [state, dispatchBase] = useReducer(enhancedReducer, initialArg, init)
+
+  // Mirrors the state synchronously, so getState is current right after next()
+  const stateRef = useRef(state)
+
+  const dispatch = useMemo(
+    () =>
+      applyMiddleware(
+        {
+          getState: () => stateRef.current,
+          replaceState: (newState) => {
+            stateRef.current = newState
+            dispatchBase({ replace: newState })
+          },
+        },
+        middleware,
+        (action) => {
+          stateRef.current = reducer(stateRef.current, action)
+          dispatchBase({ action })
+        }
+      ),
+    [reducer, middleware]
+  )
+
+  return [state, dispatch]
+}
@@ -0,0 +1,64 @@
+import { Suspense } from 'react'
+import { cn } from '@/lib/utils'
+import { demos, findDemo } from './demos'
+import { getRouteHref, useHashRoute } from './useHashRoute'
+
+/**
+ * Playground shell: a sidebar listing every registered demo and the selected demo beside it
+ * The selected demo comes from the URL hash and defaults to the first one
+ */
+export function Playground() {
+  const route = useHashRoute()
+  const demo = route ? findDemo(route) : demos[0]
+
+  return (
+    <div className="flex min-h-screen text-left">
+      <nav aria-label="Demos" className="w-64 shrink-0 border-r p-4 space-y-4">
+        <h2 className="text-lg font-semibold">React Playground</h2>
+        <ul className="space-y-2">
+          {demos.map(({ id, title, description, tags }) => (
+            <li key={id}>
+              <a
+                href={getRouteHref(id)}
+                aria-current={demo?.id === id ? 'page' : undefined}
+                className={cn(
+                  'block rounded-md p-2 hover:bg-accent',
+                  demo?.id === id && 'bg-accent'
+                )}
+              >
+                <span className="block font-medium">{title}</span>
+                <span className="block text-sm text-muted-foreground">
+                  {description}
+                </span>
+                <span className="mt-1 flex flex-wrap gap-1">
+                  {tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="rounded bg-muted px-1.5 text-xs text-muted-foreground"
+                    >
+                      {tag}
+                    </span>
+                  ))}
+                </span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      </nav>
+
+      <main className="flex-1 min-w-0 p-6">
+        {demo ? (
+          // Keyed so switching demos starts the new one fresh
+          <Suspense key={demo.id} fallback={<p>Loading {demo.title}...</p>}>
+            <demo.component />
+          </Suspense>
+        ) : (
+          <p>
+            No demo called "{route}".{' '}
+            <a href={getRouteHref(demos[0].id)}>Open {demos[0].title}</a>
+          </p>
+        )}
+      </main>
+    </div>
+  )
+}
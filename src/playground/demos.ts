@@ -0,0 +1,62 @@
+import { lazy, type ComponentType, type LazyExoticComponent } from 'react'
+
+/**
+ * A demo listed in the playground
+ * `id` is used in the URL, e.g. `#/dynamic-validation`
+ */
+export interface DemoDefinition {
+  id: string
+  title: string
+  description: string
+  tags: readonly string[]
+  component: LazyExoticComponent<ComponentType>
+}
+
+/**
+ * Every demo in the playground, in sidebar order
+ * A new pattern folder only needs an entry here; its module is loaded when first opened
+ */
+export const demos: readonly DemoDefinition[] = [
+  {
+    id: 'context-custom-hooks',
+    title: 'Context + Provider + Custom Hooks',
+    description:
+      'Theme state in useState, shared through context and read with a useTheme hook',
+    tags: ['context', 'hooks', 'theme'],
+    component: lazy(() => import('../context+provider+customHooks/demo')),
+  },
+  {
+    id: 'context-reducer',
+    title: 'Context + Provider + Custom Hook + Reducer',
+    description:
+      'Theme registry driven by a reducer with history, middleware, selectors and nested scopes',
+    tags: ['context', 'reducer', 'theme'],
+    component: lazy(
+      () => import('../context+provider+customHook+reducer/demo')
+    ),
+  },
+  {
+    id: 'dynamic-validation',
+    title: 'Dynamic Schema Form',
+    description:
+      'Form rendered from a JSON definition with a zod schema rebuilt as fields are toggled',
+    tags: ['forms', 'react-hook-form', 'zod'],
+    component: lazy(() => import('../shadcn+hookfrom+dynamicValidation/demo')),
+  },
+  {
+    id: 'dynamic-validation-wizard',
+    title: 'Dynamic Schema Wizard',
+    description: 'The same form definition rendered as a multi-step wizard',
+    tags: ['forms', 'react-hook-form', 'zod', 'wizard'],
+    component: lazy(
+      () => import('../shadcn+hookfrom+dynamicValidation/wizardDemo')
+    ),
+  },
+]
+
+/**
+ * Finds a demo by its URL id
+ */
+export function findDemo(id: string) {
+  return demos.find((demo) => demo.id === id)
+}
@@ -0,0 +1,29 @@
+import { useSyncExternalStore } from 'react'
+
+/**
+ * Reads the route from a hash such as `#/dynamic-validation`
+ */
+function getRoute() {
+  return window.location.hash.replace(/^#\/?/, '')
+}
+
+function subscribeToRoute(onChange: () => void) {
+  window.addEventListener('hashchange', onChange)
+  return () => window.removeEventListener('hashchange', onChange)
+}
+
+/**
+ * Builds the link for a route, for use as an anchor's href
+ */
+export function getRouteHref(route: string) {
+  return `#/${route}`
+}
+
+/**
+ * Current hash route, updated on back/forward navigation and link clicks
+ *
+ * @returns Route without the leading `#/`, empty on the home page
+ */
+export function useHashRoute() {
+  return useSyncExternalStore(subscribeToRoute, getRoute, () => '')
+}
@@ -0,0 +1,420 @@
+import {
+  useFieldArray,
+  useWatch,
+  type ControllerRenderProps,
+  type FieldValues,
+} from 'react-hook-form'
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
+import { Select } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  FormControl,
+  FormField,
+  FormFieldArray,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  useFormField,
+} from '@/components/ui/form'
+import { createGroupItem, isFieldEnabled } from './schemas'
+import { createTranslator, defaultLocale, type Translate } from './i18n'
+import { getDependentFields, isFieldVisible } from './conditions'
+import type { DynamicSchemaOptions } from './validators'
+import type {
+  DynamicGroupItem,
+  FieldConfiguration,
+  FormDefinition,
+  GroupFieldDefinition,
+  ScalarFieldDefinition,
+} from './types'
+
+interface DynamicFormFieldsProps {
+  definition: FormDefinition
+  config: FieldConfiguration
+  options?: DynamicSchemaOptions
+}
+
+/**
+ * Lists the fields to re-validate when a field changes:
+ * fields whose rules reference it and fields sharing a cross-field refinement with it
+ */
+function getValidationDeps(
+  definition: FormDefinition,
+  options: DynamicSchemaOptions,
+  name: string
+) {
+  const refinementPeers = (options.refinements ?? [])
+    .filter((refinement) => refinement.fields.includes(name))
+    .flatMap((refinement) => refinement.fields)
+
+  return [
+    ...new Set([...getDependentFields(definition, name), ...refinementPeers]),
+  ].filter((field) => field !== name)
+}
+
+/**
+ * Shows that an async check is running for the surrounding field
+ */
+function FieldValidatingMessage({ children }: { children: React.ReactNode }) {
+  const { isValidating } = useFormField()
+
+  if (!isValidating) {
+    return null
+  }
+
+  return <p className="text-sm text-muted-foreground">{children}</p>
+}
+
+/**
+ * Renders a radio field's options as a group labelled by the field's FormLabel
+ * The field ref goes to the first option so focusing an invalid field works
+ */
+function FieldRadioGroup({
+  definition,
+  value,
+  onChange,
+  onBlur,
+  name,
+  disabled,
+  ref,
+  ...props
+}: { definition: ScalarFieldDefinition } & ControllerRenderProps<FieldValues>) {
+  const { formItemId, formLabelId } = useFormField()
+
+  return (
+    <RadioGroup aria-labelledby={formLabelId} {...props}>
+      {(definition.options ?? []).map((option, index) => (
+        <div key={option.value} className="flex items-center gap-2">
+          <RadioGroupItem
+            ref={index === 0 ? ref : undefined}
+            id={`${formItemId}-${option.value}`}
+            name={name}
+            value={option.value}
+            checked={value === option.value}
+            onChange={() => onChange(option.value)}
+            onBlur={onBlur}
+            disabled={disabled}
+          />
+          <Label htmlFor={`${formItemId}-${option.value}`}>
+            {option.label}
+          </Label>
+        </div>
+      ))}
+    </RadioGroup>
+  )
+}
+
+/**
+ * Renders the input control for a single scalar field definition
+ * Checkboxes and switches hold booleans, every other control holds its input string
+ */
+function FieldInput({
+  definition,
+  translate,
+  ...props
+}: {
+  definition: ScalarFieldDefinition
+  translate: Translate
+} & ControllerRenderProps<FieldValues>) {
+  const { value, onChange, ...rest } = props
+
+  switch (definition.type) {
+    case 'textarea':
+      return <Textarea placeholder={definition.placeholder} {...props} />
+    case 'number':
+      return (
+        <Input
+          type="number"
+          inputMode="decimal"
+          placeholder={definition.placeholder}
+          min={definition.constraints?.min}
+          max={definition.constraints?.max}
+          {...props}
+        />
+      )
+    case 'date':
+      return (
+        <Input
+          type="date"
+          min={definition.constraints?.minDate}
+          max={definition.constraints?.maxDate}
+          {...props}
+        />
+      )
+    case 'select':
+      return (
+        <Select {...props}>
+          <option value="">
+            {definition.placeholder ?? translate('selectOption')}
+          </option>
+          {(definition.options ?? []).map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </Select>
+      )
+    case 'radio':
+      return <FieldRadioGroup definition={definition} {...props} />
+    case 'checkbox':
+      return (
+        <Checkbox
+          checked={value === true}
+          onChange={(event) => onChange(event.target.checked)}
+          {...rest}
+        />
+      )
+    case 'switch':
+      return (
+        <Switch checked={value === true} onCheckedChange={onChange} {...rest} />
+      )
+    case 'text':
+    default:
+      return <Input placeholder={definition.placeholder} {...props} />
+  }
+}
+
+/**
+ * Renders the label, control and message for a single scalar field
+ * Checkboxes and switches sit in a row with their label after the control
+ */
+function FieldItem({
+  definition,
+  field,
+  translate,
+  children,
+}: {
+  definition: ScalarFieldDefinition
+  field: ControllerRenderProps<FieldValues>
+  translate: Translate
+  children?: React.ReactNode
+}) {
+  const control = (
+    <FormControl>
+      <FieldInput definition={definition} translate={translate} {...field} />
+    </FormControl>
+  )
+
+  return (
+    <FormItem>
+      {definition.type === 'checkbox' || definition.type === 'switch' ? (
+        <div className="flex items-center gap-2">
+          {control}
+          <FormLabel>{definition.label}</FormLabel>
+        </div>
+      ) : (
+        <>
+          <FormLabel>{definition.label}</FormLabel>
+          {control}
+        </>
+      )}
+      {children}
+      <FormMessage style={{ color: '#dc2626', fontWeight: '500' }} />
+    </FormItem>
+  )
+}
+
+/**
+ * Wraps a group's items in a fieldset wired to the group's FormMessage
+ */
+function GroupFieldset({
+  label,
+  children,
+}: {
+  label: string
+  children: React.ReactNode
+}) {
+  const { error, formItemId, formMessageId } = useFormField()
+  const groupError = error?.message ?? error?.root?.message
+
+  return (
+    <fieldset
+      id={formItemId}
+      aria-describedby={groupError ? formMessageId : undefined}
+      aria-invalid={!!groupError}
+      className="space-y-3"
+    >
+      <legend
+        className={cn(
+          'text-sm font-medium leading-none',
+          groupError && 'text-destructive'
+        )}
+      >
+        {label}
+      </legend>
+      {children}
+    </fieldset>
+  )
+}
+
+/**
+ * Renders a repeatable group with add, remove and reorder controls
+ * Group-level errors (item counts) and item-level errors both go through FormMessage
+ */
+function FieldGroup({
+  group,
+  translate,
+}: {
+  group: GroupFieldDefinition
+  translate: Translate
+}) {
+  // The array is read from form context, typed by the group's item values
+  const { fields, append, remove, move } = useFieldArray<
+    Record<string, Partial<DynamicGroupItem>[]>
+  >({
+    name: group.name,
+    shouldUnregister: group.visibleWhen !== undefined,
+  })
+  const itemLabel = group.itemLabel ?? translate('defaultItemLabel')
+  const canAdd = group.maxItems === undefined || fields.length < group.maxItems
+
+  return (
+    <FormFieldArray name={group.name}>
+      <FormItem>
+        <GroupFieldset label={group.label}>
+          {fields.map((item, index) => {
+            const itemTitle = translate('itemTitle', {
+              item: itemLabel,
+              index: index + 1,
+            })
+
+            return (
+              <div key={item.id} className="space-y-3 rounded-md border p-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{itemTitle}</span>
+                  <div className="flex gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => move(index, index - 1)}
+                      disabled={index === 0}
+                      aria-label={translate('moveItemUp', { item: itemTitle })}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => move(index, index + 1)}
+                      disabled={index === fields.length - 1}
+                      aria-label={translate('moveItemDown', {
+                        item: itemTitle,
+                      })}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove(index)}
+                      aria-label={translate('removeItem', { item: itemTitle })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {group.fields.map((itemDefinition) => (
+                  <FormField
+                    key={itemDefinition.name}
+                    name={`${group.name}.${index}.${itemDefinition.name}`}
+                    render={({ field }) => (
+                      <FieldItem
+                        definition={itemDefinition}
+                        field={field}
+                        translate={translate}
+                      />
+                    )}
+                  />
+                ))}
+              </div>
+            )
+          })}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => append(createGroupItem(group))}
+            disabled={!canAdd}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            {translate('addItem', { item: itemLabel })}
+          </Button>
+        </GroupFieldset>
+        <FormMessage style={{ color: '#dc2626', fontWeight: '500' }} />
+      </FormItem>
+    </FormFieldArray>
+  )
+}
+
+/**
+ * Renders a FormField/FormItem tree for every enabled field in a form definition
+ * Reads the form from the surrounding `Form`, as field names are only known at runtime
+ * Visibility rules are evaluated live; fields with rules are unregistered while hidden
+ * Built-in text follows the locale in the schema options
+ */
+export function DynamicFormFields({
+  definition,
+  config,
+  options = {},
+}: DynamicFormFieldsProps) {
+  const values = useWatch()
+  const translate = createTranslator(
+    options.locale ?? defaultLocale,
+    options.messages
+  )
+
+  return (
+    <>
+      {definition.fields
+        .filter(
+          (field) =>
+            isFieldEnabled(config, field) && isFieldVisible(field, values)
+        )
+        .map((fieldDefinition) =>
+          fieldDefinition.type === 'group' ? (
+            <FieldGroup
+              key={fieldDefinition.name}
+              group={fieldDefinition}
+              translate={translate}
+            />
+          ) : (
+            <FormField
+              key={fieldDefinition.name}
+              name={fieldDefinition.name}
+              shouldUnregister={fieldDefinition.visibleWhen !== undefined}
+              rules={{
+                deps: getValidationDeps(
+                  definition,
+                  options,
+                  fieldDefinition.name
+                ),
+              }}
+              render={({ field }) => (
+                <FieldItem
+                  definition={fieldDefinition}
+                  field={field}
+                  translate={translate}
+                >
+                  {options.asyncValidators?.[fieldDefinition.name] && (
+                    <FieldValidatingMessage>
+                      {translate('validating')}
+                    </FieldValidatingMessage>
+                  )}
+                </FieldItem>
+              )}
+            />
+          )
+        )}
+    </>
+  )
+}
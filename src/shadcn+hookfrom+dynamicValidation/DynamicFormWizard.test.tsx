@@ -0,0 +1,68 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { DynamicFormWizard } from './DynamicFormWizard'
+import type { DynamicSchemaOptions } from './validators'
+import type { FormDefinition } from './types'
+
+const definition: FormDefinition = {
+  fields: [
+    { name: 'password', type: 'text', label: 'Password', required: true },
+    { name: 'hint', type: 'text', label: 'Hint', required: true },
+  ],
+  steps: [
+    { id: 'account', title: 'Account', fields: ['password'] },
+    { id: 'recovery', title: 'Recovery', fields: ['hint'] },
+  ],
+}
+
+// Reads fields from both steps and reports on the form as a whole
+const options: DynamicSchemaOptions = {
+  refinements: [
+    {
+      fields: ['password', 'hint'],
+      refine: (data, ctx) => {
+        if (data.password === data.hint) {
+          ctx.addIssue({
+            code: 'custom',
+            params: { message: 'The hint must not give the password away' },
+          })
+        }
+      },
+    },
+  ],
+}
+
+describe('DynamicFormWizard', () => {
+  it('shows object-level errors from the final submit', async () => {
+    const onSubmit = vi.fn()
+    render(
+      <DynamicFormWizard
+        definition={definition}
+        config={{ password: true, hint: true }}
+        options={options}
+        onSubmit={onSubmit}
+      />
+    )
+
+    await userEvent.type(screen.getByLabelText('Password'), 'secret')
+    await userEvent.click(screen.getByRole('button', { name: 'Next' }))
+    await userEvent.type(screen.getByLabelText('Hint'), 'secret')
+    await userEvent.click(screen.getByRole('button', { name: 'Submit Form' }))
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'The hint must not give the password away'
+    )
+    expect(screen.getByRole('region', { name: 'Recovery' })).toBeVisible()
+    expect(onSubmit).not.toHaveBeenCalled()
+
+    await userEvent.type(screen.getByLabelText('Hint'), ' word')
+    await userEvent.click(screen.getByRole('button', { name: 'Submit Form' }))
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      password: 'secret',
+      hint: 'secret word',
+    })
+    expect(screen.queryByRole('alert')).toBeNull()
+  })
+})
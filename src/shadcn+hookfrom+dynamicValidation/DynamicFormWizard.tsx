@@ -0,0 +1,242 @@
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Form } from '@/components/ui/form'
+import {
+  createDynamicResolver,
+  getDefaultValues,
+  getStepDefinition,
+  getStepSchemaOptions,
+  validateFormDataAsync,
+} from './schemas'
+import { DynamicFormFields } from './DynamicFormFields'
+import { createTranslator, defaultLocale, type Translate } from './i18n'
+import type { DynamicSchemaOptions } from './validators'
+import type {
+  DynamicFormData,
+  DynamicFormValues,
+  FieldConfiguration,
+  FormDefinition,
+  FormStep,
+} from './types'
+
+interface DynamicFormWizardProps<
+  D extends FormDefinition,
+  C extends FieldConfiguration
+> {
+  definition: D
+  config: C
+  options?: DynamicSchemaOptions
+  onSubmit: (data: DynamicFormData<D, C>) => void
+}
+
+/**
+ * Shows how far through the wizard the user is
+ */
+function WizardProgress({
+  steps,
+  current,
+  translate,
+}: {
+  steps: readonly FormStep[]
+  current: number
+  translate: Translate
+}) {
+  return (
+    <nav aria-label={translate('formProgress')} className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {translate('stepProgress', { step: current + 1, total: steps.length })}
+      </p>
+      <div
+        role="progressbar"
+        aria-valuemin={1}
+        aria-valuemax={steps.length}
+        aria-valuenow={current + 1}
+        className="h-2 w-full rounded-full bg-muted"
+      >
+        <div
+          className="h-2 rounded-full bg-primary transition-all"
+          style={{ width: `${((current + 1) / steps.length) * 100}%` }}
+        />
+      </div>
+      <ol className="flex flex-wrap gap-4 text-sm">
+        {steps.map((step, index) => (
+          <li
+            key={step.id}
+            aria-current={index === current ? 'step' : undefined}
+            className={cn(
+              index === current && 'font-semibold text-foreground',
+              index < current && 'text-primary',
+              index > current && 'text-muted-foreground'
+            )}
+          >
+            {index + 1}. {step.title}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  )
+}
+
+/**
+ * Renders a form definition as a multi-step wizard
+ * Each step is validated against a schema built from its own fields before advancing;
+ * the final submit re-validates every step's values against the full schema,
+ * so a definition declared `as const` types the submitted data
+ */
+export function DynamicFormWizard<
+  const D extends FormDefinition,
+  const C extends FieldConfiguration
+>({
+  definition,
+  config,
+  options = {},
+  onSubmit,
+}: DynamicFormWizardProps<D, C>) {
+  const translate = createTranslator(
+    options.locale ?? defaultLocale,
+    options.messages
+  )
+  // A definition without steps is shown as a single step
+  const steps = definition.steps ?? [
+    {
+      id: 'form',
+      title: translate('defaultStepTitle'),
+      fields: definition.fields.map((field) => field.name),
+    },
+  ]
+  const [stepIndex, setStepIndex] = useState(0)
+  const step = steps[stepIndex]
+  const isLastStep = stepIndex === steps.length - 1
+
+  const form = useForm({
+    resolver: createDynamicResolver(
+      getStepDefinition(definition, step),
+      config,
+      getStepSchemaOptions(options, step.fields)
+    ),
+    mode: 'onChange' as const,
+    defaultValues: getDefaultValues(definition),
+  })
+
+  const {
+    handleSubmit,
+    trigger,
+    getValues,
+    setError,
+    formState: { errors },
+  } = form
+
+  const goNext = async () => {
+    // The resolver only covers the current step, so this validates just its slice
+    const isStepValid = await trigger([...step.fields])
+    if (isStepValid) {
+      setStepIndex(stepIndex + 1)
+    }
+  }
+
+  const goBack = () => {
+    // All steps stay mounted, so entered values survive going back
+    setStepIndex(stepIndex - 1)
+  }
+
+  const onFinalSubmit = async () => {
+    // Checks every step again, async validators included
+    // The form is typed by the current step's slice, the full definition types the values
+    const validationResult = await validateFormDataAsync(
+      getValues() as DynamicFormValues<D>,
+      definition,
+      config,
+      options
+    )
+
+    if (validationResult.success) {
+      onSubmit(validationResult.data)
+      return
+    }
+
+    const { issues } = validationResult.error
+    issues.forEach((issue) => {
+      // Object-level issues, e.g. from a cross-field refinement, have no field to go on
+      setError(issue.path.length > 0 ? issue.path.join('.') : 'root', {
+        type: issue.code,
+        message: issue.message,
+      })
+    })
+
+    // Send the user back to the first step holding a field error;
+    // object-level errors are shown on the last step, where the form is submitted
+    const invalidStep = steps.findIndex((wizardStep) =>
+      issues.some((issue) => wizardStep.fields.includes(String(issue.path[0])))
+    )
+    if (invalidStep !== -1) {
+      setStepIndex(invalidStep)
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={
+          isLastStep
+            ? handleSubmit(onFinalSubmit)
+            : (event) => {
+                event.preventDefault()
+                goNext()
+              }
+        }
+        className="space-y-6"
+      >
+        <WizardProgress
+          steps={steps}
+          current={stepIndex}
+          translate={translate}
+        />
+
+        {steps.map((wizardStep, index) => (
+          <section
+            key={wizardStep.id}
+            hidden={index !== stepIndex}
+            aria-label={wizardStep.title}
+            className="space-y-6"
+          >
+            <div className="space-y-1">
+              <h2 className="text-lg font-semibold">{wizardStep.title}</h2>
+              {wizardStep.description && (
+                <p className="text-sm text-muted-foreground">
+                  {wizardStep.description}
+                </p>
+              )}
+            </div>
+            <DynamicFormFields
+              definition={getStepDefinition(definition, wizardStep)}
+              config={config}
+              options={options}
+            />
+          </section>
+        ))}
+
+        {errors.root?.message && (
+          <p role="alert" className="text-sm font-medium text-destructive">
+            {errors.root.message}
+          </p>
+        )}
+
+        <div className="flex gap-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={goBack}
+            disabled={stepIndex === 0}
+          >
+            {translate('back')}
+          </Button>
+          <Button type="submit">
+            {translate(isLastStep ? 'submitForm' : 'next')}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
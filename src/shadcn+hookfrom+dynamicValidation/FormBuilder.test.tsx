@@ -0,0 +1,149 @@
+import { useState } from 'react'
+import { describe, expect, it } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { FormBuilder } from './FormBuilder'
+import type { FormDefinition } from './types'
+
+const initialDefinition: FormDefinition = {
+  fields: [
+    { name: 'name', type: 'text', label: 'Name', required: true },
+    { name: 'age', type: 'number', label: 'Age' },
+  ],
+}
+
+let current: FormDefinition
+
+function TestBuilder() {
+  const [definition, setDefinition] = useState(initialDefinition)
+  current = definition
+
+  return <FormBuilder definition={definition} onChange={setDefinition} />
+}
+
+/**
+ * Expands a field's card, found by its label and name, and returns queries scoped to it
+ */
+async function expandCard(title: string) {
+  await userEvent.click(screen.getByRole('button', { name: title }))
+  return within(screen.getByRole('group', { name: title }))
+}
+
+describe('FormBuilder', () => {
+  it('adds, reorders and removes fields', async () => {
+    render(<TestBuilder />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Add Field' }))
+    expect(current.fields.map((field) => field.name)).toEqual([
+      'name',
+      'age',
+      'field3',
+    ])
+
+    await userEvent.click(
+      screen.getByRole('button', { name: 'Move Field 3 up' })
+    )
+    await userEvent.click(screen.getByRole('button', { name: 'Remove Name' }))
+
+    expect(current.fields.map((field) => field.name)).toEqual(['field3', 'age'])
+  })
+
+  it('renames a field once the name is valid', async () => {
+    render(<TestBuilder />)
+
+    const name = (await expandCard('Age age')).getByLabelText('Field name')
+    await userEvent.clear(name)
+    await userEvent.type(name, 'name')
+    await userEvent.tab()
+
+    expect(name).toHaveAttribute('aria-invalid', 'true')
+    expect(
+      screen.getByText('Another field is already named name')
+    ).toBeInTheDocument()
+
+    await userEvent.clear(name)
+    await userEvent.type(name, 'years')
+    await userEvent.tab()
+
+    expect(current.fields[1].name).toBe('years')
+    expect(screen.getByRole('group', { name: 'Age years' })).toBeInTheDocument()
+  })
+
+  it('edits the settings of the chosen type', async () => {
+    render(<TestBuilder />)
+
+    const card = await expandCard('Age age')
+    await userEvent.type(card.getByLabelText('Minimum'), '18')
+    await userEvent.selectOptions(card.getByLabelText('Type'), 'Select')
+
+    expect(current.fields[1]).toMatchObject({
+      type: 'select',
+      constraints: {},
+      options: [
+        { value: 'option1', label: 'Option 1' },
+        { value: 'option2', label: 'Option 2' },
+      ],
+    })
+
+    await userEvent.type(card.getByLabelText('Option 2 label'), ' (default)')
+    await userEvent.click(card.getByRole('button', { name: 'Add Option' }))
+
+    expect(current.fields[1]).toHaveProperty('options', [
+      { value: 'option1', label: 'Option 1' },
+      { value: 'option2', label: 'Option 2 (default)' },
+      { value: 'option3', label: 'Option 3' },
+    ])
+  })
+
+  it('applies a pattern once it compiles', async () => {
+    render(<TestBuilder />)
+
+    const pattern = (await expandCard('Name name')).getByLabelText('Pattern')
+    // `[[` types a single bracket
+    await userEvent.type(pattern, '[[a-z')
+
+    expect(pattern).toHaveAttribute('aria-invalid', 'true')
+    expect(
+      screen.getByText('Pattern must be a valid regular expression')
+    ).toBeInTheDocument()
+    expect(current.fields[0]).not.toHaveProperty('constraints')
+
+    await userEvent.type(pattern, ']+')
+
+    expect(pattern).toHaveAttribute('aria-invalid', 'false')
+    expect(current.fields[0]).toHaveProperty('constraints.pattern', '[a-z]+')
+  })
+
+  it('imports a definition and reports invalid files', async () => {
+    render(<TestBuilder />)
+
+    const input = screen.getByLabelText('Import JSON')
+    const imported: FormDefinition = {
+      fields: [{ name: 'terms', type: 'checkbox', label: 'Terms' }],
+    }
+    await userEvent.upload(
+      input,
+      new File([JSON.stringify(imported)], 'terms.json', {
+        type: 'application/json',
+      })
+    )
+
+    // The file is read asynchronously
+    expect(
+      await screen.findByRole('group', { name: 'Terms terms' })
+    ).toBeVisible()
+    expect(current).toEqual(imported)
+
+    await userEvent.upload(
+      input,
+      new File(['{"fields": [{"name": "x"}]}'], 'broken.json', {
+        type: 'application/json',
+      })
+    )
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(
+      'broken.json is not a valid form definition'
+    )
+    expect(current).toEqual(imported)
+  })
+})
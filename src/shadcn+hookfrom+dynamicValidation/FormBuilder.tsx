@@ -0,0 +1,886 @@
+import { useId, useRef, useState, type ChangeEvent } from 'react'
+import {
+  ArrowDown,
+  ArrowUp,
+  Download,
+  Plus,
+  Trash2,
+  Upload,
+} from 'lucide-react'
+import * as z from 'zod'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input, type InputProps } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select } from '@/components/ui/select'
+import {
+  builderFieldTypes,
+  changeFieldType,
+  constraintKeys,
+  createScalarField,
+  exportFormDefinition,
+  getFieldNameError,
+  importFormDefinition,
+  messageKeys,
+  moveItem,
+  placeholderTypes,
+  removeField,
+  renameField,
+  type BuilderFieldType,
+} from './builder'
+import { compilePattern } from './schemas'
+import {
+  createTranslator,
+  defaultLocale,
+  type MessageKey,
+  type Translate,
+} from './i18n'
+import type {
+  FieldConstraints,
+  FieldDefinition,
+  FieldMessages,
+  FormDefinition,
+  GroupFieldDefinition,
+  GroupMessages,
+  ScalarFieldDefinition,
+} from './types'
+
+interface FormBuilderProps {
+  definition: FormDefinition
+  onChange: (definition: FormDefinition) => void
+  translate?: Translate
+  className?: string
+}
+
+/**
+ * A failed import, reported with the file name and zod's summary of the problems
+ */
+interface ImportError {
+  file: string
+  details: string
+}
+
+const typeLabels: Record<BuilderFieldType, MessageKey> = {
+  text: 'typeText',
+  textarea: 'typeTextarea',
+  number: 'typeNumber',
+  date: 'typeDate',
+  select: 'typeSelect',
+  radio: 'typeRadio',
+  checkbox: 'typeCheckbox',
+  switch: 'typeSwitch',
+  group: 'typeGroup',
+}
+
+const constraintLabels: Record<keyof FieldConstraints, MessageKey> = {
+  minLength: 'constraintMinLength',
+  maxLength: 'constraintMaxLength',
+  pattern: 'constraintPattern',
+  min: 'constraintMin',
+  max: 'constraintMax',
+  minDate: 'constraintMinDate',
+  maxDate: 'constraintMaxDate',
+}
+
+const messageLabels: Record<
+  keyof FieldMessages | keyof GroupMessages,
+  MessageKey
+> = {
+  required: 'fieldRequired',
+  minLength: 'constraintMinLength',
+  maxLength: 'constraintMaxLength',
+  pattern: 'constraintPattern',
+  min: 'constraintMin',
+  max: 'constraintMax',
+  invalid: 'invalid',
+  minItems: 'constraintMinItems',
+  maxItems: 'constraintMaxItems',
+}
+
+const scalarFieldTypes = builderFieldTypes.filter((type) => type !== 'group')
+
+/**
+ * Reads an optional text setting; cleared inputs remove the setting
+ */
+function parseText(value: string) {
+  return value === '' ? undefined : value
+}
+
+/**
+ * Reads an optional number setting; cleared inputs remove the setting
+ */
+function parseNumber(value: string) {
+  return value === '' ? undefined : Number(value)
+}
+
+/**
+ * Reads a picked file as text
+ */
+function readFile(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
+  })
+}
+
+/**
+ * Labelled input for a single setting
+ */
+function SettingInput({
+  label,
+  className,
+  ...props
+}: InputProps & { label: string }) {
+  const id = useId()
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <Label htmlFor={id}>{label}</Label>
+      <Input id={id} {...props} />
+    </div>
+  )
+}
+
+/**
+ * Field name input, applied on blur so the form isn't re-keyed while typing
+ */
+function FieldNameInput({
+  name,
+  siblings,
+  onRename,
+  translate,
+}: {
+  name: string
+  siblings: readonly string[]
+  onRename: (name: string) => void
+  translate: Translate
+}) {
+  const id = useId()
+  const [value, setValue] = useState(name)
+  const [error, setError] = useState<MessageKey>()
+
+  const apply = () => {
+    if (value === name) {
+      setError(undefined)
+      return
+    }
+
+    const nameError = getFieldNameError(value, siblings)
+    setError(nameError)
+    if (!nameError) {
+      onRename(value)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{translate('fieldName')}</Label>
+      <Input
+        id={id}
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        onBlur={apply}
+        aria-invalid={error !== undefined}
+        aria-describedby={error && `${id}-error`}
+        className="font-mono"
+      />
+      {error && (
+        <p id={`${id}-error`} className="text-sm text-destructive">
+          {translate(error, { label: translate('fieldName'), name: value })}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Pattern constraint input
+ * Text that doesn't compile yet, e.g. half of a character class, stays in the input and is only
+ * applied to the definition once it is a valid regular expression
+ */
+function PatternInput({
+  pattern,
+  onChange,
+  translate,
+}: {
+  pattern: string | undefined
+  onChange: (pattern: string | undefined) => void
+  translate: Translate
+}) {
+  const id = useId()
+  const [value, setValue] = useState(pattern ?? '')
+  const [appliedPattern, setAppliedPattern] = useState(pattern)
+
+  // Show patterns set from outside, e.g. by an import, see "storing information from previous renders"
+  if (pattern !== appliedPattern) {
+    setAppliedPattern(pattern)
+    setValue(pattern ?? '')
+  }
+
+  const invalid = value !== '' && compilePattern(value) === undefined
+
+  return (
+    <div className="col-span-2 space-y-1">
+      <Label htmlFor={id}>{translate('constraintPattern')}</Label>
+      <Input
+        id={id}
+        value={value}
+        onChange={(event) => {
+          const text = event.target.value
+          setValue(text)
+
+          if (text === '' || compilePattern(text)) {
+            setAppliedPattern(parseText(text))
+            onChange(parseText(text))
+          }
+        }}
+        aria-invalid={invalid}
+        aria-describedby={invalid ? `${id}-error` : undefined}
+        className="font-mono"
+      />
+      {invalid && (
+        <p id={`${id}-error`} className="text-sm text-destructive">
+          {translate('patternInvalid')}
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Message override inputs, collapsed since the generated messages are usually enough
+ */
+function MessageSettings<K extends keyof FieldMessages | keyof GroupMessages>({
+  keys,
+  messages = {},
+  onChange,
+  translate,
+}: {
+  keys: readonly K[]
+  messages?: Partial<Record<K, string>>
+  onChange: (messages: Partial<Record<K, string>>) => void
+  translate: Translate
+}) {
+  return (
+    <details className="text-sm">
+      <summary className="cursor-pointer font-medium">
+        {translate('fieldMessages')}
+      </summary>
+      <div className="mt-2 grid gap-2">
+        {keys.map((key) => (
+          <SettingInput
+            key={key}
+            label={translate('fieldMessage', {
+              rule: translate(messageLabels[key]),
+            })}
+            value={messages[key] ?? ''}
+            onChange={(event) =>
+              onChange({ ...messages, [key]: parseText(event.target.value) })
+            }
+          />
+        ))}
+      </div>
+    </details>
+  )
+}
+
+/**
+ * Value and label inputs for the options of a select or radio field
+ */
+function OptionSettings({
+  field,
+  onChange,
+  translate,
+}: {
+  field: ScalarFieldDefinition
+  onChange: (field: ScalarFieldDefinition) => void
+  translate: Translate
+}) {
+  const options = field.options ?? []
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">{translate('options')}</legend>
+      {options.map((option, index) => {
+        const updateOption = (update: Partial<typeof option>) =>
+          onChange({
+            ...field,
+            options: options.map((current, optionIndex) =>
+              optionIndex === index ? { ...current, ...update } : current
+            ),
+          })
+
+        return (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={option.value}
+              onChange={(event) => updateOption({ value: event.target.value })}
+              aria-label={translate('optionValue', { index: index + 1 })}
+              className="font-mono"
+            />
+            <Input
+              value={option.label}
+              onChange={(event) => updateOption({ label: event.target.value })}
+              aria-label={translate('optionLabel', { index: index + 1 })}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() =>
+                onChange({
+                  ...field,
+                  options: options.filter(
+                    (_, optionIndex) => optionIndex !== index
+                  ),
+                })
+              }
+              aria-label={translate('removeItem', {
+                item: translate('optionTitle', { index: index + 1 }),
+              })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      })}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          onChange({
+            ...field,
+            options: [
+              ...options,
+              {
+                value: `option${options.length + 1}`,
+                label: `Option ${options.length + 1}`,
+              },
+            ],
+          })
+        }
+      >
+        <Plus className="h-4 w-4" />
+        {translate('addOption')}
+      </Button>
+    </fieldset>
+  )
+}
+
+/**
+ * Settings of a scalar field: placeholder, required, constraints, options and messages
+ */
+function ScalarFieldSettings({
+  field,
+  onChange,
+  translate,
+}: {
+  field: ScalarFieldDefinition
+  onChange: (field: ScalarFieldDefinition) => void
+  translate: Translate
+}) {
+  const id = useId()
+  const constraints = field.constraints ?? {}
+
+  return (
+    <>
+      {placeholderTypes.includes(field.type) && (
+        <SettingInput
+          label={translate('fieldPlaceholder')}
+          value={field.placeholder ?? ''}
+          onChange={(event) =>
+            onChange({ ...field, placeholder: parseText(event.target.value) })
+          }
+        />
+      )}
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id={`${id}-required`}
+          checked={field.required === true}
+          onChange={(event) =>
+            onChange({ ...field, required: event.target.checked || undefined })
+          }
+        />
+        <Label htmlFor={`${id}-required`}>{translate('fieldRequired')}</Label>
+      </div>
+
+      {constraintKeys[field.type].length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {constraintKeys[field.type].map((key) => {
+            if (key === 'pattern') {
+              return (
+                <PatternInput
+                  key={key}
+                  pattern={constraints.pattern}
+                  onChange={(pattern) =>
+                    onChange({
+                      ...field,
+                      constraints: { ...constraints, pattern },
+                    })
+                  }
+                  translate={translate}
+                />
+              )
+            }
+
+            const isNumber = field.type !== 'date'
+
+            return (
+              <SettingInput
+                key={key}
+                label={translate(constraintLabels[key])}
+                type={isNumber ? 'number' : 'date'}
+                value={constraints[key] ?? ''}
+                onChange={(event) =>
+                  onChange({
+                    ...field,
+                    constraints: {
+                      ...constraints,
+                      [key]: isNumber
+                        ? parseNumber(event.target.value)
+                        : parseText(event.target.value),
+                    },
+                  })
+                }
+              />
+            )
+          })}
+        </div>
+      )}
+
+      {(field.type === 'select' || field.type === 'radio') && (
+        <OptionSettings
+          field={field}
+          onChange={onChange}
+          translate={translate}
+        />
+      )}
+
+      <MessageSettings
+        keys={messageKeys[field.type]}
+        messages={field.messages}
+        onChange={(messages) => onChange({ ...field, messages })}
+        translate={translate}
+      />
+    </>
+  )
+}
+
+/**
+ * Settings of a repeatable group: item label, item count, messages and the item fields
+ */
+function GroupFieldSettings({
+  field,
+  onChange,
+  translate,
+}: {
+  field: GroupFieldDefinition
+  onChange: (field: GroupFieldDefinition) => void
+  translate: Translate
+}) {
+  const updateItemField = (index: number, itemField: FieldDefinition) => {
+    // Item fields can't be groups, the type select doesn't offer it
+    if (itemField.type !== 'group') {
+      onChange({
+        ...field,
+        fields: field.fields.map((current, fieldIndex) =>
+          fieldIndex === index ? itemField : current
+        ),
+      })
+    }
+  }
+
+  return (
+    <>
+      <SettingInput
+        label={translate('itemLabel')}
+        value={field.itemLabel ?? ''}
+        onChange={(event) =>
+          onChange({ ...field, itemLabel: parseText(event.target.value) })
+        }
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <SettingInput
+          label={translate('constraintMinItems')}
+          type="number"
+          min={0}
+          value={field.minItems ?? ''}
+          onChange={(event) =>
+            onChange({ ...field, minItems: parseNumber(event.target.value) })
+          }
+        />
+        <SettingInput
+          label={translate('constraintMaxItems')}
+          type="number"
+          min={0}
+          value={field.maxItems ?? ''}
+          onChange={(event) =>
+            onChange({ ...field, maxItems: parseNumber(event.target.value) })
+          }
+        />
+      </div>
+
+      <MessageSettings
+        keys={['minItems', 'maxItems']}
+        messages={field.messages}
+        onChange={(messages) => onChange({ ...field, messages })}
+        translate={translate}
+      />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium">{translate('itemFields')}</h4>
+        <FieldList
+          fields={field.fields}
+          types={scalarFieldTypes}
+          onChange={updateItemField}
+          onRename={(index, name) =>
+            updateItemField(index, { ...field.fields[index], name })
+          }
+          onMove={(from, to) =>
+            onChange({ ...field, fields: moveItem(field.fields, from, to) })
+          }
+          onRemove={(index) =>
+            onChange({
+              ...field,
+              fields: field.fields.filter(
+                (_, fieldIndex) => fieldIndex !== index
+              ),
+            })
+          }
+          translate={translate}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({
+              ...field,
+              fields: [...field.fields, createScalarField(field.fields)],
+            })
+          }
+        >
+          <Plus className="h-4 w-4" />
+          {translate('addItemField')}
+        </Button>
+      </div>
+    </>
+  )
+}
+
+/**
+ * Editable list of fields, each with its name, label, type and type specific settings
+ * Settings are only rendered for expanded cards; cards are keyed by field name,
+ * so a renamed field's card starts over with the new name
+ */
+function FieldList({
+  fields,
+  types,
+  onChange,
+  onRename,
+  onMove,
+  onRemove,
+  translate,
+}: {
+  fields: readonly FieldDefinition[]
+  types: readonly BuilderFieldType[]
+  onChange: (index: number, field: FieldDefinition) => void
+  onRename: (index: number, name: string) => void
+  onMove: (from: number, to: number) => void
+  onRemove: (index: number) => void
+  translate: Translate
+}) {
+  const baseId = useId()
+  // Names of the fields whose settings are shown, so long forms stay compact
+  const [expanded, setExpanded] = useState<readonly string[]>([])
+
+  const toggle = (name: string) =>
+    setExpanded(
+      expanded.includes(name)
+        ? expanded.filter((expandedName) => expandedName !== name)
+        : [...expanded, name]
+    )
+
+  const rename = (index: number, name: string) => {
+    const previous = fields[index].name
+    setExpanded(
+      expanded.map((expandedName) =>
+        expandedName === previous ? name : expandedName
+      )
+    )
+    onRename(index, name)
+  }
+
+  if (fields.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">{translate('noFields')}</p>
+    )
+  }
+
+  return (
+    <ol className="space-y-3">
+      {fields.map((field, index) => {
+        const titleId = `${baseId}-${field.name}`
+        const title = field.label || field.name
+        const open = expanded.includes(field.name)
+        const update = (updated: FieldDefinition) => onChange(index, updated)
+
+        return (
+          <li
+            key={field.name}
+            role="group"
+            aria-labelledby={titleId}
+            className="space-y-3 rounded-md border bg-white p-3"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                aria-expanded={open}
+                onClick={() => toggle(field.name)}
+                className="h-auto min-w-0 justify-start gap-2 px-2 py-1"
+              >
+                <span aria-hidden>{open ? '▾' : '▸'}</span>
+                <span id={titleId} className="truncate">
+                  {field.label}{' '}
+                  <code className="text-xs text-muted-foreground">
+                    {field.name}
+                  </code>
+                </span>
+              </Button>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onMove(index, index - 1)}
+                  disabled={index === 0}
+                  aria-label={translate('moveItemUp', { item: title })}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onMove(index, index + 1)}
+                  disabled={index === fields.length - 1}
+                  aria-label={translate('moveItemDown', { item: title })}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onRemove(index)}
+                  aria-label={translate('removeItem', { item: title })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {open && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <FieldNameInput
+                    name={field.name}
+                    siblings={fields
+                      .filter((_, fieldIndex) => fieldIndex !== index)
+                      .map((sibling) => sibling.name)}
+                    onRename={(name) => rename(index, name)}
+                    translate={translate}
+                  />
+                  <SettingInput
+                    label={translate('fieldLabel')}
+                    value={field.label}
+                    onChange={(event) =>
+                      update({ ...field, label: event.target.value })
+                    }
+                  />
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor={`${titleId}-type`}>
+                    {translate('fieldType')}
+                  </Label>
+                  <Select
+                    id={`${titleId}-type`}
+                    value={field.type}
+                    onChange={(event) =>
+                      update(
+                        changeFieldType(
+                          field,
+                          event.target.value as BuilderFieldType
+                        )
+                      )
+                    }
+                  >
+                    {types.map((type) => (
+                      <option key={type} value={type}>
+                        {translate(typeLabels[type])}
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+
+                {field.type === 'group' ? (
+                  <GroupFieldSettings
+                    field={field}
+                    onChange={update}
+                    translate={translate}
+                  />
+                ) : (
+                  <ScalarFieldSettings
+                    field={field}
+                    onChange={update}
+                    translate={translate}
+                  />
+                )}
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
+
+/**
+ * Visual editor for a form definition: add, remove, reorder and configure fields,
+ * and export or import the definition as JSON
+ * The definition is controlled; render it with `DynamicFormFields` for a live preview
+ */
+export function FormBuilder({
+  definition,
+  onChange,
+  translate = createTranslator(defaultLocale),
+  className,
+}: FormBuilderProps) {
+  const importInput = useRef<HTMLInputElement>(null)
+  const [importError, setImportError] = useState<ImportError | null>(null)
+
+  const onExport = () => {
+    const url = URL.createObjectURL(
+      new Blob([exportFormDefinition(definition)], {
+        type: 'application/json',
+      })
+    )
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'form-definition.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const onImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    // Clear the input so importing the same file again fires another change
+    event.target.value = ''
+    if (!file) {
+      return
+    }
+
+    try {
+      onChange(importFormDefinition(await readFile(file)))
+      setImportError(null)
+    } catch (error) {
+      setImportError({
+        file: file.name,
+        details:
+          error instanceof z.ZodError
+            ? z.prettifyError(error)
+            : error instanceof Error
+            ? error.message
+            : String(error),
+      })
+    }
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          onClick={() =>
+            onChange({
+              ...definition,
+              fields: [
+                ...definition.fields,
+                createScalarField(definition.fields),
+              ],
+            })
+          }
+        >
+          <Plus className="h-4 w-4" />
+          {translate('addField')}
+        </Button>
+        <Button type="button" size="sm" variant="outline" onClick={onExport}>
+          <Download className="h-4 w-4" />
+          {translate('exportJson')}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => importInput.current?.click()}
+        >
+          <Upload className="h-4 w-4" />
+          {translate('importJson')}
+        </Button>
+        <input
+          ref={importInput}
+          type="file"
+          accept="application/json,.json"
+          onChange={onImport}
+          aria-label={translate('importJson')}
+          tabIndex={-1}
+          className="hidden"
+        />
+      </div>
+
+      {importError && (
+        <div role="alert" className="space-y-1 text-sm text-destructive">
+          <p className="font-medium">
+            {translate('importFailed', { file: importError.file })}
+          </p>
+          <pre className="overflow-auto whitespace-pre-wrap text-xs">
+            {importError.details}
+          </pre>
+        </div>
+      )}
+
+      <FieldList
+        fields={definition.fields}
+        types={builderFieldTypes}
+        onChange={(index, field) =>
+          onChange({
+            ...definition,
+            fields: definition.fields.map((current, fieldIndex) =>
+              fieldIndex === index ? field : current
+            ),
+          })
+        }
+        onRename={(index, name) =>
+          onChange(renameField(definition, index, name))
+        }
+        onMove={(from, to) =>
+          onChange({
+            ...definition,
+            fields: moveItem(definition.fields, from, to),
+          })
+        }
+        onRemove={(index) => onChange(removeField(definition, index))}
+        translate={translate}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { FormDevtools } from './FormDevtools'
+
+const schema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  nickname: z.string().optional(),
+})
+
+function TestForm() {
+  const form = useForm({
+    resolver: zodResolver(schema),
+    mode: 'onBlur',
+    defaultValues: { name: '', nickname: '' },
+  })
+
+  return (
+    <form onSubmit={form.handleSubmit(() => {})}>
+      <input aria-label="Name" {...form.register('name')} />
+      <button type="submit">Submit</button>
+      <FormDevtools
+        control={form.control}
+        schema={schema}
+        mode="onBlur"
+        defaultOpen
+      />
+    </form>
+  )
+}
+
+/**
+ * Cells of the field's row in the devtools table
+ */
+function getFieldRow(name: string) {
+  return within(
+    screen.getByRole('rowheader', { name }).closest('tr') as HTMLElement
+  )
+}
+
+describe('FormDevtools', () => {
+  it('collapses and expands the panel', async () => {
+    render(<TestForm />)
+
+    const toggle = screen.getByRole('button', { name: /Form Devtools/ })
+    expect(toggle).toHaveAttribute('aria-expanded', 'true')
+
+    await userEvent.click(toggle)
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'false')
+    expect(screen.queryByRole('table')).toBeNull()
+  })
+
+  it('shows the mode and the live state of every field', async () => {
+    render(<TestForm />)
+
+    expect(screen.getByText('onBlur (re-validates onChange)')).toBeVisible()
+    expect(
+      getFieldRow('name').getByText('Required (min 1 chars)')
+    ).toBeVisible()
+    expect(getFieldRow('nickname').getByText('Optional')).toBeVisible()
+
+    await userEvent.type(screen.getByLabelText('Name'), 'Ada')
+    await userEvent.tab()
+
+    const row = getFieldRow('name')
+    expect(row.getByText('"Ada"')).toBeVisible()
+    expect(row.getAllByText('✓')).toHaveLength(2)
+  })
+
+  it('records submits with their outcome', async () => {
+    render(<TestForm />)
+    expect(screen.getByText('No submissions yet')).toBeVisible()
+
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }))
+
+    expect(getFieldRow('name').getByText('Name is required')).toBeVisible()
+    expect(
+      await screen.findByText(/#1 at .*: Failed \(1 error\)/)
+    ).toBeVisible()
+
+    await userEvent.type(screen.getByLabelText('Name'), 'Ada')
+    await userEvent.click(screen.getByRole('button', { name: 'Submit' }))
+
+    const submissions = screen.getAllByText(/^#\d/)
+    expect(submissions[0]).toHaveTextContent(/#2 at .*: Successful/)
+    expect(submissions).toHaveLength(2)
+  })
+})
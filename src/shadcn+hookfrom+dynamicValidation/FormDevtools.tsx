@@ -0,0 +1,286 @@
+import { useState } from 'react'
+import {
+  useFormContext,
+  useFormState,
+  useWatch,
+  type Control,
+  type FieldValues,
+  type Mode,
+  type UseFormProps,
+} from 'react-hook-form'
+import type * as z from 'zod'
+import { cn } from '@/lib/utils'
+import { Button } from '@/components/ui/button'
+import { createTranslator, defaultLocale } from './i18n'
+import { describeSchemaRules, formatFieldRules } from './introspection'
+
+/**
+ * Props of the devtools panel
+ * `mode` and `reValidateMode` mirror the options passed to useForm, which the control does not expose
+ */
+interface FormDevtoolsProps<TFieldValues extends FieldValues, TTransformed> {
+  control?: Control<TFieldValues, unknown, TTransformed>
+  schema?: z.ZodType
+  mode?: Mode
+  reValidateMode?: UseFormProps['reValidateMode']
+  defaultOpen?: boolean
+  historyLimit?: number
+  className?: string
+}
+
+/**
+ * A finished submit, recorded with the values it was made with
+ * `successful` is false when validation or the submit handler reported errors
+ */
+interface SubmissionRecord<TFieldValues> {
+  attempt: number
+  submittedAt: number
+  successful: boolean
+  errorCount: number
+  values: TFieldValues
+}
+
+// The English rule summaries are enough for a developer panel
+const translate = createTranslator(defaultLocale)
+
+/**
+ * Formats a value for a table cell; Dates and nested values are shown as JSON
+ */
+function formatValue(value: unknown) {
+  return value === undefined ? '—' : JSON.stringify(value)
+}
+
+/**
+ * Whether a dirty or touched flag is set, looking into array and object fields
+ */
+function isFlagged(flag: unknown): boolean {
+  if (Array.isArray(flag)) {
+    return flag.some(isFlagged)
+  }
+  if (typeof flag === 'object' && flag !== null) {
+    return Object.values(flag).some(isFlagged)
+  }
+  return flag === true
+}
+
+/**
+ * Whether a field is marked in `dirtyFields` or `touchedFields`
+ */
+function isFieldFlagged(flags: object, name: string) {
+  return isFlagged((flags as Record<string, unknown>)[name])
+}
+
+/**
+ * Summarises a field's error; list fields report how many items have errors
+ */
+function formatError(error: unknown) {
+  if (typeof error !== 'object' || error === null) {
+    return ''
+  }
+  if ('message' in error && typeof error.message === 'string') {
+    return error.message
+  }
+  if (Array.isArray(error)) {
+    const count = error.filter(Boolean).length
+    return `${count} ${count === 1 ? 'item' : 'items'} with errors`
+  }
+  return formatError('root' in error ? error.root : undefined)
+}
+
+/**
+ * Lists the errors object's own messages without RHF's `ref` elements, which can't be serialised
+ */
+function serializeErrors(errors: object) {
+  return JSON.stringify(
+    errors,
+    (key, value: unknown) => (key === 'ref' ? undefined : value),
+    2
+  )
+}
+
+/**
+ * Debug panel showing a form's live values, field state, errors and submits
+ */
+function FormDevtoolsPanel<TFieldValues extends FieldValues, TTransformed>({
+  control,
+  schema,
+  mode,
+  reValidateMode = 'onChange',
+  defaultOpen = false,
+  historyLimit = 10,
+  className,
+}: FormDevtoolsProps<TFieldValues, TTransformed>) {
+  const context = useFormContext<TFieldValues, unknown, TTransformed>()
+  const formControl = control ?? context?.control
+
+  if (!formControl) {
+    throw new Error('FormDevtools needs a control prop or a FormProvider')
+  }
+
+  const values = useWatch({ control: formControl }) as TFieldValues
+  const {
+    dirtyFields,
+    touchedFields,
+    errors,
+    isValid,
+    isDirty,
+    isSubmitting,
+    isSubmitSuccessful,
+    submitCount,
+  } = useFormState({ control: formControl })
+
+  const [open, setOpen] = useState(defaultOpen)
+  const [history, setHistory] = useState<SubmissionRecord<TFieldValues>[]>([])
+
+  // Record each finished submit as it is counted, see "storing information from previous renders"
+  const [recordedCount, setRecordedCount] = useState(submitCount)
+  if (submitCount !== recordedCount) {
+    setRecordedCount(submitCount)
+
+    // A reset sets the count back to 0, which is not a submit
+    if (submitCount > recordedCount) {
+      setHistory([
+        {
+          attempt: submitCount,
+          submittedAt: Date.now(),
+          successful: isSubmitSuccessful,
+          errorCount: Object.keys(errors).length,
+          values,
+        },
+        ...history.slice(0, historyLimit - 1),
+      ])
+    }
+  }
+
+  const rules = schema ? describeSchemaRules(schema) : {}
+  const fieldNames = [
+    ...new Set([...Object.keys(values), ...Object.keys(rules)]),
+  ]
+
+  return (
+    <section
+      aria-label="Form devtools"
+      className={cn('rounded-lg border bg-slate-50 text-sm', className)}
+    >
+      <Button
+        type="button"
+        variant="ghost"
+        aria-expanded={open}
+        onClick={() => setOpen(!open)}
+        className="w-full justify-between"
+      >
+        <span>Form Devtools</span>
+        <span aria-hidden>{open ? '▾' : '▸'}</span>
+      </Button>
+
+      {open && (
+        <div className="space-y-4 p-4 pt-0">
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1">
+            {mode && (
+              <>
+                <dt>Mode</dt>
+                <dd>
+                  {mode} (re-validates {reValidateMode})
+                </dd>
+              </>
+            )}
+            <dt>Valid</dt>
+            <dd>{isValid ? 'Yes' : 'No'}</dd>
+            <dt>Dirty</dt>
+            <dd>{isDirty ? 'Yes' : 'No'}</dd>
+            <dt>Submitting</dt>
+            <dd>{isSubmitting ? 'Yes' : 'No'}</dd>
+          </dl>
+
+          <div className="overflow-auto">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr>
+                  <th scope="col">Field</th>
+                  <th scope="col">Value</th>
+                  <th scope="col">Dirty</th>
+                  <th scope="col">Touched</th>
+                  <th scope="col">Error</th>
+                  {schema && <th scope="col">Schema</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {fieldNames.map((name) => (
+                  <tr key={name} className="border-t align-top">
+                    <th scope="row" className="font-mono">
+                      {name}
+                    </th>
+                    <td className="font-mono break-all">
+                      {formatValue(values[name])}
+                    </td>
+                    <td>{isFieldFlagged(dirtyFields, name) ? '✓' : ''}</td>
+                    <td>{isFieldFlagged(touchedFields, name) ? '✓' : ''}</td>
+                    <td className="text-destructive">
+                      {formatError(errors[name])}
+                    </td>
+                    {schema && (
+                      <td>
+                        {rules[name]
+                          ? formatFieldRules(rules[name], translate)
+                          : translate('ruleHidden')}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <details>
+            <summary className="cursor-pointer font-medium">Errors</summary>
+            <pre className="mt-2 overflow-auto rounded bg-slate-100 p-2 text-xs">
+              {serializeErrors(errors)}
+            </pre>
+          </details>
+
+          <div className="space-y-2">
+            <h3 className="font-medium">Submissions</h3>
+            {history.length === 0 ? (
+              <p className="text-muted-foreground">No submissions yet</p>
+            ) : (
+              <ol className="space-y-1">
+                {history.map((record) => (
+                  <li key={record.attempt}>
+                    <details>
+                      <summary className="cursor-pointer">
+                        #{record.attempt} at{' '}
+                        {new Date(record.submittedAt).toLocaleTimeString()}:{' '}
+                        {record.successful
+                          ? 'Successful'
+                          : `Failed (${record.errorCount} ${
+                              record.errorCount === 1 ? 'error' : 'errors'
+                            })`}
+                      </summary>
+                      <pre className="mt-1 overflow-auto rounded bg-slate-100 p-2 text-xs">
+                        {JSON.stringify(record.values, null, 2)}
+                      </pre>
+                    </details>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      )}
+    </section>
+  )
+}
+
+/**
+ * Collapsible debug panel for a React Hook Form form, reading the form from `control` or
+ * the surrounding `Form`/`FormProvider`
+ * Shows each field's value, dirty and touched state, error and (given `schema`) its rules,
+ * the validation mode (given `mode`) and the last `historyLimit` submits
+ * Renders nothing in production builds, where the panel is left out of the bundle
+ */
+export function FormDevtools<TFieldValues extends FieldValues, TTransformed>(
+  props: FormDevtoolsProps<TFieldValues, TTransformed>
+) {
+  // import.meta.env.DEV is replaced with false when building, so the panel is dropped as dead code
+  return import.meta.env.DEV ? <FormDevtoolsPanel {...props} /> : null
+}
@@ -0,0 +1,55 @@
+import type * as z from 'zod'
+import { cn } from '@/lib/utils'
+import { createTranslator, defaultLocale, type Translate } from './i18n'
+import { describeSchemaRules, formatFieldRules } from './introspection'
+import type { FormDefinition } from './types'
+
+interface SchemaRulesListProps {
+  definition: FormDefinition
+  schema: z.ZodType
+  translate?: Translate
+  className?: string
+}
+
+/**
+ * Lists the validation rules of every field in a form definition, read from the schema itself
+ * so the list always matches what is validated; fields missing from the schema are shown as hidden
+ */
+export function SchemaRulesList({
+  definition,
+  schema,
+  translate = createTranslator(defaultLocale),
+  className,
+}: SchemaRulesListProps) {
+  const rules = describeSchemaRules(schema)
+
+  return (
+    <ul className={cn('space-y-1', className)}>
+      {definition.fields.map((field) => {
+        const fieldRules = rules[field.name]
+        const itemRules = fieldRules?.items
+
+        return (
+          <li key={field.name}>
+            • {field.label}:{' '}
+            {fieldRules
+              ? formatFieldRules(fieldRules, translate)
+              : translate('ruleHidden')}
+            {field.type === 'group' && itemRules && (
+              <ul className="ml-4 space-y-1">
+                {field.fields
+                  .filter((itemField) => itemRules[itemField.name])
+                  .map((itemField) => (
+                    <li key={itemField.name}>
+                      ◦ {itemField.label}:{' '}
+                      {formatFieldRules(itemRules[itemField.name], translate)}
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
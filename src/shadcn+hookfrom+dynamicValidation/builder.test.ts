@@ -0,0 +1,242 @@
+import { describe, expect, it } from 'vitest'
+import * as z from 'zod'
+import {
+  changeFieldType,
+  createScalarField,
+  exportFormDefinition,
+  getFieldNameError,
+  getResetValues,
+  importFormDefinition,
+  moveItem,
+  removeField,
+  renameField,
+} from './builder'
+import { isFieldRequired } from './conditions'
+import { demoFormDefinition } from './formDefinition'
+import type { FormDefinition, ScalarFieldDefinition } from './types'
+
+const companyIndex = demoFormDefinition.fields.findIndex(
+  (field) => field.name === 'company'
+)
+
+const textField: ScalarFieldDefinition = {
+  name: 'nickname',
+  type: 'text',
+  label: 'Nickname',
+  placeholder: 'Enter nickname',
+  defaultValue: 'Ada',
+  required: true,
+  constraints: { minLength: 2, pattern: '^[a-z]+$' },
+  messages: { required: 'Nickname is required', minLength: 'Too short' },
+  visibleWhen: [{ field: 'name', operator: 'isNotEmpty' }],
+}
+
+describe('createScalarField', () => {
+  it('picks a name no sibling uses', () => {
+    const siblings = [createScalarField([]), { ...textField, name: 'field2' }]
+
+    expect(siblings[0].name).toBe('field1')
+    expect(createScalarField(siblings)).toEqual({
+      name: 'field3',
+      type: 'text',
+      label: 'Field 3',
+    })
+  })
+
+  it('gives choice fields starter options', () => {
+    expect(createScalarField([], 'radio').options).toHaveLength(2)
+  })
+})
+
+describe('changeFieldType', () => {
+  it('keeps the settings the new type still uses', () => {
+    expect(changeFieldType(textField, 'number')).toEqual({
+      name: 'nickname',
+      type: 'number',
+      label: 'Nickname',
+      placeholder: 'Enter nickname',
+      required: true,
+      constraints: {},
+      messages: { required: 'Nickname is required' },
+      visibleWhen: textField.visibleWhen,
+    })
+    expect(changeFieldType(textField, 'date')).toHaveProperty(
+      'placeholder',
+      undefined
+    )
+  })
+
+  it('adds options to select fields and keeps existing ones', () => {
+    const select = changeFieldType(textField, 'select')
+
+    expect(select).toMatchObject({ options: expect.any(Array) })
+    expect(changeFieldType(select, 'radio')).toMatchObject({
+      options: (select as ScalarFieldDefinition).options,
+    })
+  })
+
+  it('converts between groups and scalar fields', () => {
+    const group = changeFieldType(textField, 'group')
+
+    expect(group).toEqual({
+      name: 'nickname',
+      type: 'group',
+      label: 'Nickname',
+      visibleWhen: textField.visibleWhen,
+      fields: [{ name: 'field1', type: 'text', label: 'Field 1' }],
+    })
+    expect(changeFieldType(group, 'checkbox')).toMatchObject({
+      name: 'nickname',
+      type: 'checkbox',
+      label: 'Nickname',
+    })
+  })
+})
+
+describe('getFieldNameError', () => {
+  it.each([
+    ['', 'required'],
+    ['1st', 'fieldNameInvalid'],
+    ['contact.name', 'fieldNameInvalid'],
+    ['age', 'fieldNameTaken'],
+    ['nick_name2', undefined],
+  ])('checks %j', (name, error) => {
+    expect(getFieldNameError(name, ['name', 'age'])).toBe(error)
+  })
+})
+
+describe('renameField', () => {
+  it('updates the conditions and steps referring to the field', () => {
+    const renamed = renameField(demoFormDefinition, companyIndex, 'employer')
+    const jobTitle = renamed.fields.find((field) => field.name === 'jobTitle')
+
+    expect(renamed.fields[companyIndex].name).toBe('employer')
+    expect(jobTitle).toMatchObject({
+      visibleWhen: [{ field: 'employer', operator: 'isNotEmpty' }],
+      requiredWhen: [expect.objectContaining({ field: 'employer' })],
+    })
+    expect(renamed.steps?.[1].fields).toContain('employer')
+    expect(renamed.steps?.[1].fields).not.toContain('company')
+  })
+})
+
+describe('removeField', () => {
+  it('removes the field and the conditions and step entries referring to it', () => {
+    const removed = removeField(demoFormDefinition, companyIndex)
+
+    expect(removed.fields.map((field) => field.name)).not.toContain('company')
+    expect(
+      removed.fields.find((field) => field.name === 'jobTitle')
+    ).toMatchObject({ visibleWhen: undefined, requiredWhen: undefined })
+    expect(removed.steps?.[1].fields).toEqual(['jobTitle', 'role', 'startDate'])
+  })
+
+  it('leaves a field that was only required when the removed field was filled in optional', () => {
+    const definition: FormDefinition = {
+      fields: [
+        { name: 'pet', type: 'text', label: 'Pet' },
+        {
+          name: 'petName',
+          type: 'text',
+          label: 'Pet name',
+          requiredWhen: [{ field: 'pet', operator: 'isNotEmpty' }],
+        },
+      ],
+    }
+
+    const removed = removeField(definition, 0)
+
+    expect(removed.fields[0]).toMatchObject({ requiredWhen: undefined })
+    expect(isFieldRequired(removed.fields[0], { petName: '' })).toBe(false)
+    expect(JSON.parse(exportFormDefinition(removed))).toEqual({
+      fields: [{ name: 'petName', type: 'text', label: 'Pet name' }],
+    })
+  })
+})
+
+describe('moveItem', () => {
+  it('moves an item without changing the original list', () => {
+    const items = ['a', 'b', 'c']
+
+    expect(moveItem(items, 0, 2)).toEqual(['b', 'c', 'a'])
+    expect(moveItem(items, 2, 1)).toEqual(['a', 'c', 'b'])
+    expect(items).toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('getResetValues', () => {
+  it('lists new fields and fields whose value changed shape', () => {
+    const previous: FormDefinition = { fields: [textField] }
+    const next: FormDefinition = {
+      fields: [
+        { ...textField, label: 'Alias' },
+        changeFieldType({ ...textField, name: 'subscribed' }, 'switch'),
+      ],
+    }
+
+    expect(getResetValues(previous, next)).toEqual([['subscribed', false]])
+    expect(
+      getResetValues(next, {
+        fields: [changeFieldType(next.fields[0], 'number'), next.fields[1]],
+      })
+    ).toEqual([['nickname', '']])
+  })
+})
+
+describe('exportFormDefinition / importFormDefinition', () => {
+  it('round-trips a form definition', () => {
+    expect(
+      importFormDefinition(exportFormDefinition(demoFormDefinition))
+    ).toEqual(demoFormDefinition)
+  })
+
+  it('leaves out settings that were left empty', () => {
+    const field = changeFieldType(textField, 'checkbox')
+    const exported = JSON.parse(exportFormDefinition({ fields: [field] }))
+
+    expect(exported.fields[0]).not.toHaveProperty('constraints')
+    expect(exported.fields[0]).toHaveProperty('messages', {
+      required: 'Nickname is required',
+    })
+  })
+
+  it('rejects invalid JSON and invalid definitions', () => {
+    expect(() => importFormDefinition('{')).toThrow(SyntaxError)
+    expect(() =>
+      importFormDefinition(
+        JSON.stringify({ fields: [textField, { ...textField, label: 'Copy' }] })
+      )
+    ).toThrow(z.ZodError)
+  })
+
+  it.each([
+    [
+      'a pattern that does not compile',
+      { fields: [{ ...textField, constraints: { pattern: '[' } }] },
+      '→ at fields[0].constraints.pattern',
+    ],
+    [
+      'a condition on an unknown field',
+      { fields: [textField] },
+      '✖ Unknown field "name"\n  → at fields[0].visibleWhen[0].field',
+    ],
+    [
+      'a step listing an unknown field',
+      {
+        fields: [{ ...textField, visibleWhen: undefined }],
+        steps: [{ id: 'one', title: 'One', fields: ['nickname', 'age'] }],
+      },
+      '✖ Unknown field "age"\n  → at steps[0].fields[1]',
+    ],
+  ])('rejects %s', (_, definition, problem) => {
+    let error: unknown
+    try {
+      importFormDefinition(JSON.stringify(definition))
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(z.ZodError)
+    expect(z.prettifyError(error as z.ZodError)).toContain(problem)
+  })
+})
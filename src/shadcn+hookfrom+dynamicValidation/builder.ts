@@ -0,0 +1,379 @@
+import { getDefaultValues, parseFormDefinition } from './schemas'
+import type { MessageKey } from './i18n'
+import type {
+  FieldCondition,
+  FieldConstraints,
+  FieldDefinition,
+  FieldMessages,
+  FieldType,
+  FormDefinition,
+  ScalarFieldDefinition,
+} from './types'
+
+/**
+ * Field types the builder offers, including repeatable groups
+ */
+export type BuilderFieldType = FieldType | 'group'
+
+export const builderFieldTypes: readonly BuilderFieldType[] = [
+  'text',
+  'textarea',
+  'number',
+  'date',
+  'select',
+  'radio',
+  'checkbox',
+  'switch',
+  'group',
+]
+
+/**
+ * Constraints that apply to each field type, in the order the builder shows them
+ */
+export const constraintKeys: Record<
+  FieldType,
+  readonly (keyof FieldConstraints)[]
+> = {
+  text: ['minLength', 'maxLength', 'pattern'],
+  textarea: ['minLength', 'maxLength', 'pattern'],
+  number: ['min', 'max'],
+  date: ['minDate', 'maxDate'],
+  select: [],
+  radio: [],
+  checkbox: [],
+  switch: [],
+}
+
+/**
+ * Message overrides used by each field type, see the schema factories in `schemaConfigs`
+ */
+export const messageKeys: Record<FieldType, readonly (keyof FieldMessages)[]> =
+  {
+    text: ['required', 'minLength', 'maxLength', 'pattern'],
+    textarea: ['required', 'minLength', 'maxLength', 'pattern'],
+    number: ['required', 'min', 'max', 'invalid'],
+    date: ['required', 'min', 'max', 'invalid'],
+    select: ['required', 'invalid'],
+    radio: ['required', 'invalid'],
+    checkbox: ['required'],
+    switch: ['required'],
+  }
+
+/**
+ * Field types that show a placeholder
+ */
+export const placeholderTypes: readonly FieldType[] = [
+  'text',
+  'textarea',
+  'number',
+  'select',
+]
+
+const fieldNamePattern = /^[A-Za-z][A-Za-z0-9_]*$/
+
+/**
+ * Picks a name not used by any of the given fields, e.g. `field3`
+ */
+function getUniqueName(fields: readonly FieldDefinition[], base: string) {
+  const names = new Set(fields.map((field) => field.name))
+  let index = fields.length + 1
+
+  while (names.has(`${base}${index}`)) {
+    index++
+  }
+  return `${base}${index}`
+}
+
+/**
+ * Options a new select or radio field starts with
+ */
+function createOptions() {
+  return [
+    { value: 'option1', label: 'Option 1' },
+    { value: 'option2', label: 'Option 2' },
+  ]
+}
+
+/**
+ * Creates a scalar field of the given type, named so it doesn't clash with its siblings
+ *
+ * @param siblings - Fields the new field is added next to
+ * @param type - Type of the new field
+ * @returns New field definition
+ */
+export function createScalarField(
+  siblings: readonly FieldDefinition[],
+  type: FieldType = 'text'
+): ScalarFieldDefinition {
+  const name = getUniqueName(siblings, 'field')
+
+  return {
+    name,
+    type,
+    label: `Field ${name.slice('field'.length)}`,
+    ...(type === 'select' || type === 'radio'
+      ? { options: createOptions() }
+      : {}),
+  }
+}
+
+/**
+ * Changes a field's type, keeping the settings that still apply
+ * The default value and the constraints, messages and placeholder the new type doesn't use are dropped, and
+ * select and radio fields get starter options when they have none
+ *
+ * @param field - Field to change
+ * @param type - New field type
+ * @returns Field definition of the new type
+ */
+export function changeFieldType(
+  field: FieldDefinition,
+  type: BuilderFieldType
+): FieldDefinition {
+  const { name, label, visibleWhen } = field
+
+  if (type === 'group') {
+    return {
+      name,
+      type,
+      label,
+      visibleWhen,
+      fields: [createScalarField([])],
+    }
+  }
+  if (field.type === 'group') {
+    return createScalarFieldFrom({ name, type, label, visibleWhen })
+  }
+
+  return createScalarFieldFrom({ ...field, type, defaultValue: undefined })
+}
+
+/**
+ * Drops the constraints, messages, placeholder and options a scalar field's type doesn't use
+ */
+function createScalarFieldFrom(
+  field: ScalarFieldDefinition
+): ScalarFieldDefinition {
+  const { constraints = {}, messages = {}, options, type } = field
+  const hasOptions = type === 'select' || type === 'radio'
+
+  return {
+    ...field,
+    constraints: Object.fromEntries(
+      constraintKeys[type].map((key) => [key, constraints[key]])
+    ),
+    messages: Object.fromEntries(
+      messageKeys[type].map((key) => [key, messages[key]])
+    ),
+    placeholder: placeholderTypes.includes(type)
+      ? field.placeholder
+      : undefined,
+    options: hasOptions ? options ?? createOptions() : undefined,
+  }
+}
+
+/**
+ * Checks a field name before it is applied
+ * Names become form value paths, so they can't contain dots or brackets
+ *
+ * @param name - Proposed name
+ * @param siblings - Names of the other fields on the same level
+ * @returns Message key describing the problem, or undefined when the name can be used
+ */
+export function getFieldNameError(
+  name: string,
+  siblings: readonly string[]
+): MessageKey | undefined {
+  if (name === '') {
+    return 'required'
+  }
+  if (!fieldNamePattern.test(name)) {
+    return 'fieldNameInvalid'
+  }
+  if (siblings.includes(name)) {
+    return 'fieldNameTaken'
+  }
+  return undefined
+}
+
+/**
+ * Points conditions that referenced a renamed field at its new name
+ */
+function renameInConditions(
+  conditions: readonly FieldCondition[] | undefined,
+  from: string,
+  to: string
+) {
+  return conditions?.map((condition) =>
+    condition.field === from ? { ...condition, field: to } : condition
+  )
+}
+
+/**
+ * Renames a top-level field, updating the conditions and steps that refer to it
+ *
+ * @param definition - Form definition holding the field
+ * @param index - Index of the field
+ * @param name - New name, see `getFieldNameError`
+ * @returns Updated form definition
+ */
+export function renameField(
+  definition: FormDefinition,
+  index: number,
+  name: string
+): FormDefinition {
+  const previous = definition.fields[index].name
+
+  return {
+    ...definition,
+    fields: definition.fields.map((field, fieldIndex) => {
+      const renamed = fieldIndex === index ? { ...field, name } : field
+
+      return renamed.type === 'group'
+        ? {
+            ...renamed,
+            visibleWhen: renameInConditions(
+              renamed.visibleWhen,
+              previous,
+              name
+            ),
+          }
+        : {
+            ...renamed,
+            visibleWhen: renameInConditions(
+              renamed.visibleWhen,
+              previous,
+              name
+            ),
+            requiredWhen: renameInConditions(
+              renamed.requiredWhen,
+              previous,
+              name
+            ),
+          }
+    }),
+    steps: definition.steps?.map((step) => ({
+      ...step,
+      fields: step.fields.map((field) => (field === previous ? name : field)),
+    })),
+  }
+}
+
+/**
+ * Removes a top-level field, along with the conditions and step entries that refer to it
+ *
+ * @param definition - Form definition holding the field
+ * @param index - Index of the field
+ * @returns Updated form definition
+ */
+export function removeField(
+  definition: FormDefinition,
+  index: number
+): FormDefinition {
+  const { name } = definition.fields[index]
+  // Drops the list once it is empty, as an empty requiredWhen would always match
+  const dropConditions = (
+    conditions: readonly FieldCondition[] | undefined
+  ) => {
+    const kept = conditions?.filter((condition) => condition.field !== name)
+    return kept?.length ? kept : undefined
+  }
+
+  return {
+    ...definition,
+    fields: definition.fields
+      .filter((_, fieldIndex) => fieldIndex !== index)
+      .map((field) =>
+        field.type === 'group'
+          ? { ...field, visibleWhen: dropConditions(field.visibleWhen) }
+          : {
+              ...field,
+              visibleWhen: dropConditions(field.visibleWhen),
+              requiredWhen: dropConditions(field.requiredWhen),
+            }
+      ),
+    steps: definition.steps?.map((step) => ({
+      ...step,
+      fields: step.fields.filter((field) => field !== name),
+    })),
+  }
+}
+
+/**
+ * Moves an item of a list to another index
+ *
+ * @param items - List to reorder
+ * @param from - Index of the item to move
+ * @param to - Index the item ends up at
+ * @returns Reordered copy of the list
+ */
+export function moveItem<T>(items: readonly T[], from: number, to: number) {
+  const moved = [...items]
+  const [item] = moved.splice(from, 1)
+  moved.splice(to, 0, item)
+  return moved
+}
+
+/**
+ * Shape of the value a field holds: its type, and the types of a group's item fields
+ */
+function getValueShape(field: FieldDefinition) {
+  return field.type === 'group'
+    ? field.fields.map((itemField) => `${itemField.name}:${itemField.type}`)
+    : [field.type]
+}
+
+/**
+ * Lists the fields whose current form value no longer fits their definition:
+ * new or renamed fields, and fields whose type or item fields changed
+ *
+ * @param previous - Form definition before the edit
+ * @param next - Form definition after the edit
+ * @returns Names of the changed fields with their new default values
+ */
+export function getResetValues(previous: FormDefinition, next: FormDefinition) {
+  const defaults = getDefaultValues(next)
+
+  return next.fields.flatMap((field) => {
+    const previousField = previous.fields.find(
+      (candidate) => candidate.name === field.name
+    )
+    const changed =
+      !previousField ||
+      getValueShape(previousField).join() !== getValueShape(field).join()
+
+    return changed ? [[field.name, defaults[field.name]] as const] : []
+  })
+}
+
+/**
+ * Serializes a form definition for export
+ * Settings left empty in the builder are left out
+ *
+ * @param definition - Form definition to export
+ * @returns Indented JSON
+ */
+export function exportFormDefinition(definition: FormDefinition) {
+  return JSON.stringify(
+    definition,
+    (_, value: unknown) =>
+      typeof value === 'object' &&
+      value !== null &&
+      !Array.isArray(value) &&
+      Object.values(value).every((entry) => entry === undefined)
+        ? undefined
+        : value,
+    2
+  )
+}
+
+/**
+ * Parses an exported form definition
+ *
+ * @param json - JSON text, e.g. the contents of an exported file
+ * @returns The form definition
+ * @throws SyntaxError when the text is not JSON, ZodError when it is not a valid form definition
+ */
+export function importFormDefinition(json: string): FormDefinition {
+  return parseFormDefinition(JSON.parse(json))
+}
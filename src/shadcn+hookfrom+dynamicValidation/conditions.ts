@@ -0,0 +1,109 @@
+import type {
+  DynamicFormValues,
+  FieldCondition,
+  FieldDefinition,
+  FormDefinition,
+} from './types'
+
+/**
+ * Evaluates a single condition against the current form values
+ *
+ * @param condition - Condition to evaluate
+ * @param values - Current (possibly incomplete) form values
+ * @returns Whether the condition matches
+ */
+export function evaluateCondition(
+  condition: FieldCondition,
+  values: DynamicFormValues
+) {
+  const value = values[condition.field]
+  const expected = condition.value ?? ''
+
+  // Groups can only be checked for emptiness
+  if (Array.isArray(value)) {
+    return condition.operator === 'isEmpty'
+      ? value.length === 0
+      : condition.operator === 'isNotEmpty' && value.length > 0
+  }
+
+  // Checkboxes and switches compare as 'true', or as empty when unchecked
+  const current = value === true ? 'true' : value === false ? '' : value ?? ''
+
+  switch (condition.operator) {
+    case 'equals':
+      return current === expected
+    case 'notEquals':
+      return current !== expected
+    case 'startsWith':
+      return current.startsWith(expected)
+    case 'contains':
+      return current.includes(expected)
+    case 'isEmpty':
+      return current.trim() === ''
+    case 'isNotEmpty':
+      return current.trim() !== ''
+    default:
+      return false
+  }
+}
+
+/**
+ * Checks whether every condition in a list matches
+ * A missing list always matches
+ */
+function matchesAll(
+  conditions: readonly FieldCondition[] | undefined,
+  values: DynamicFormValues
+) {
+  return (conditions ?? []).every((condition) =>
+    evaluateCondition(condition, values)
+  )
+}
+
+/**
+ * Checks whether a field should be shown for the current form values
+ */
+export function isFieldVisible(
+  field: FieldDefinition,
+  values: DynamicFormValues
+) {
+  return matchesAll(field.visibleWhen, values)
+}
+
+/**
+ * Checks whether a field is required for the current form values
+ * `requiredWhen` only adds a requirement; it never relaxes `required`
+ * Groups are required when they need at least one item
+ */
+export function isFieldRequired(
+  field: FieldDefinition,
+  values: DynamicFormValues
+) {
+  if (field.type === 'group') {
+    return (field.minItems ?? 0) > 0
+  }
+  if (field.required) {
+    return true
+  }
+  // An empty list has no condition to meet, so it does not make the field required
+  return (
+    field.requiredWhen !== undefined &&
+    field.requiredWhen.length > 0 &&
+    matchesAll(field.requiredWhen, values)
+  )
+}
+
+/**
+ * Lists the fields whose rules reference a given field
+ * Used to re-validate dependants when the referenced field changes
+ */
+export function getDependentFields(definition: FormDefinition, name: string) {
+  return definition.fields
+    .filter((field) =>
+      [
+        ...(field.visibleWhen ?? []),
+        ...(field.type === 'group' ? [] : field.requiredWhen ?? []),
+      ].some((condition) => condition.field === name)
+    )
+    .map((field) => field.name)
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render, screen, waitFor, within } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import Demo from './demo'
+import { demoFormDefinition } from './formDefinition'
+
+// Answer straight away instead of after the mock backend's latency and failed first attempt
+vi.mock('./demoSubmission', async () => {
+  const { createMockSubmissionAdapter } = await import('./submission')
+  return {
+    createDemoSubmissionAdapter: () =>
+      createMockSubmissionAdapter({ latency: 0 }),
+  }
+})
+
+/**
+ * Unchecks the validation control of every field except the given ones
+ */
+async function enableOnly(...names: string[]) {
+  for (const field of demoFormDefinition.fields) {
+    if (!names.includes(field.name)) {
+      await userEvent.click(
+        screen.getByLabelText(`Enable ${field.label} Validation`)
+      )
+    }
+  }
+}
+
+describe('Demo', () => {
+  it('reports errors as the user types and blocks submitting', async () => {
+    render(<Demo />)
+
+    const age = screen.getByLabelText('Age')
+    await userEvent.type(age, '12')
+
+    expect(
+      await screen.findByText('You must be at least 18')
+    ).toBeInTheDocument()
+    expect(age).toHaveAttribute('aria-invalid', 'true')
+    expect(screen.getByRole('button', { name: 'Submit Form' })).toBeDisabled()
+  })
+
+  it('updates the schema when a field control is toggled', async () => {
+    render(<Demo />)
+
+    const control = screen.getByLabelText('Enable Name Validation')
+    await userEvent.click(control)
+
+    expect(control).not.toBeChecked()
+    expect(screen.getByText(/^Partial \(/)).not.toHaveTextContent('Name +')
+    expect(
+      screen.getByText('• Name: Optional (not validated)')
+    ).toBeInTheDocument()
+
+    await userEvent.click(control)
+
+    expect(screen.getByText('Full (all fields validated)')).toBeInTheDocument()
+  })
+
+  it('previews fields added in the form builder', async () => {
+    render(<Demo />)
+
+    await userEvent.click(screen.getByRole('button', { name: 'Add Field' }))
+
+    const label = `Field ${demoFormDefinition.fields.length + 1}`
+    expect(screen.getByRole('textbox', { name: label })).toHaveValue('')
+    expect(
+      screen.getByLabelText(`Enable ${label} Validation`)
+    ).toBeInTheDocument()
+  })
+
+  it('submits the enabled fields once they are valid', async () => {
+    render(<Demo />)
+    await enableOnly('name', 'age')
+
+    await userEvent.type(screen.getByLabelText('Name'), 'Ada')
+    await userEvent.type(screen.getByLabelText('Age'), '36')
+
+    // Submitting is enabled once the name's availability check has passed
+    const submit = screen.getByRole('button', { name: 'Submit Form' })
+    await waitFor(() => expect(submit).toBeEnabled(), { timeout: 3000 })
+    await userEvent.click(submit)
+
+    const summary = (await screen.findByText('Form Successfully Submitted!'))
+      .parentElement as HTMLElement
+    expect(within(summary).getByText('Ada')).toBeInTheDocument()
+    expect(within(summary).getByText('36')).toBeInTheDocument()
+  })
+})
@@ -1,19 +1,61 @@
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { useForm } from 'react-hook-form'
-import { zodResolver } from '@hookform/resolvers/zod'
 import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
-import { Textarea } from '../components/ui/textarea'
+import { Form, FormErrorSummary } from '@/components/ui/form'
 import {
-  Form,
-  FormControl,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from '@/components/ui/form'
-import { createDynamicSchema, validateFormData } from './schemas'
-import type { DynamicFormData, FieldConfiguration } from './types'
+  createDynamicResolver,
+  createDynamicSchema,
+  createFieldConfiguration,
+  getDefaultValues,
+  isFieldEnabled,
+} from './schemas'
+import { DynamicFormFields } from './DynamicFormFields'
+import { SchemaRulesList } from './SchemaRulesList'
+import { FormDevtools } from './FormDevtools'
+import { FormBuilder } from './FormBuilder'
+import { getResetValues } from './builder'
+import { demoFormDefinition } from './formDefinition'
+import { demoSchemaOptions } from './demoValidation'
+import { getDraftValues } from './drafts'
+import { useFormDraft } from './useFormDraft'
+import { applySubmissionErrors, isAbortError } from './submission'
+import { useSubmission } from './useSubmission'
+import { createDemoSubmissionAdapter } from './demoSubmission'
+import {
+  createTranslator,
+  localizeDefinition,
+  type Locale,
+  type Translate,
+} from './i18n'
+import { demoLocales, demoMessages } from './demoMessages'
+import type {
+  DynamicFormData,
+  DynamicFieldValue,
+  FieldConfiguration,
+  FormDefinition,
+} from './types'
+
+// Bump when demoFormDefinition changes shape so older drafts are discarded
+const DRAFT_VERSION = 2
+
+// Passed to the devtools too, which cannot read it back from the form
+const FORM_MODE = 'onChange'
+
+/**
+ * Formats a submitted value for the summary
+ */
+function formatValue(value: DynamicFieldValue, locale: Locale, t: Translate) {
+  if (Array.isArray(value)) {
+    return t('items', { count: value.length })
+  }
+  if (value instanceof Date) {
+    return value.toLocaleDateString(locale)
+  }
+  if (typeof value === 'boolean') {
+    return t(value ? 'yes' : 'no')
+  }
+  return String(value)
+}
 
 /**
  * Demo component showcasing React Hook Form with shadcn/ui and dynamic schema validation from separate file
@@ -23,47 +65,151 @@ function Demo() {
     null
   )
 
+  // Form definition edited in the builder, starting from the demo definition
+  const [authoredDefinition, setAuthoredDefinition] =
+    useState<FormDefinition>(demoFormDefinition)
+
   // Control state for which fields to show
-  const [fieldControls, setFieldControls] = useState<FieldConfiguration>({
-    name: true, // Control for single name field
-    description: true, // Control for description field
-  })
+  const [fieldControls, setFieldControls] = useState<FieldConfiguration>(() =>
+    createFieldConfiguration(demoFormDefinition)
+  )
 
-  // Dynamic validation schema based on field controls - using dynamic schema creation
-  const formSchema = createDynamicSchema(fieldControls)
+  // Locale for labels, page text and validation messages
+  const [locale, setLocale] = useState<Locale>('en')
+  const t = useMemo(
+    () => createTranslator(locale, demoMessages[locale]),
+    [locale]
+  )
+  const definition = useMemo(
+    () => localizeDefinition(authoredDefinition, t),
+    [authoredDefinition, t]
+  )
+  const schemaOptions = useMemo(
+    () => ({ ...demoSchemaOptions, locale, messages: demoMessages[locale] }),
+    [locale]
+  )
 
+  // Dynamic validation schema based on field controls and field rules - rebuilt on every validation
   const form = useForm({
-    resolver: zodResolver(formSchema),
-    mode: 'onChange' as const,
-    defaultValues: {
-      name: '',
-      description: '',
-    },
+    resolver: createDynamicResolver(definition, fieldControls, schemaOptions),
+    mode: FORM_MODE,
+    defaultValues: getDefaultValues(demoFormDefinition),
   })
 
   const {
     control,
     handleSubmit,
-    formState: { isValid, isDirty },
+    formState: { isValid, isDirty, isSubmitting, errors },
     reset,
+    watch,
+    getFieldState,
+    getValues,
+    setError,
+    setValue,
+    clearErrors,
+    unregister,
+    trigger,
   } = form
 
-  const onSubmit = (data: Record<string, unknown>) => {
-    console.log('Form submitted:', data)
+  // Submission pipeline with retry and cancellation; isSubmitting covers the pending state
+  const [submissionAdapter] = useState(createDemoSubmissionAdapter)
+  const { submit, cancel, attempt } = useSubmission(submissionAdapter)
+
+  // Live values the field rules are evaluated against
+  const values = watch()
+
+  // Re-validate invalid fields once the new locale's resolver is in place,
+  // so their messages switch language
+  useEffect(() => {
+    const invalidFields = Object.keys(getValues()).filter(
+      (name) => getFieldState(name).invalid
+    )
 
-    // Validate with current configuration using external schema
-    const validationResult = validateFormData(data, fieldControls)
+    if (invalidFields.length > 0) {
+      trigger(invalidFields)
+    }
+  }, [locale, getValues, getFieldState, trigger])
+
+  // Autosave a draft of the values and field controls once the user has typed something
+  const { draft, restoreDraft, discardDraft } = useFormDraft({
+    key: 'dynamic-schema-form-draft',
+    version: DRAFT_VERSION,
+    values,
+    config: fieldControls,
+    enabled: isDirty,
+  })
+
+  const onRestoreDraft = () => {
+    const restored = restoreDraft()
+    if (!restored) {
+      return
+    }
+
+    setFieldControls({
+      ...createFieldConfiguration(authoredDefinition),
+      ...restored.config,
+    })
+    // Keep the empty defaults so Reset still clears the form
+    reset(getDraftValues(authoredDefinition, restored.values), {
+      keepDefaultValues: true,
+    })
+  }
+
+  const onReset = () => {
+    reset(getDefaultValues(authoredDefinition))
+    discardDraft()
+  }
+
+  // Fields that are new or changed shape start over from their default value,
+  // removed fields drop out of the form values
+  const onDefinitionChange = (next: FormDefinition) => {
+    for (const [name, value] of getResetValues(authoredDefinition, next)) {
+      setValue(name, value)
+      clearErrors(name)
+    }
+
+    const removed = authoredDefinition.fields
+      .map((field) => field.name)
+      .filter((name) => !next.fields.some((field) => field.name === name))
+    if (removed.length > 0) {
+      unregister(removed)
+    }
+
+    setAuthoredDefinition(next)
+  }
+
+  // Schema the resolver builds for the current values, shown in the rules list and devtools
+  const schema = createDynamicSchema(
+    definition,
+    fieldControls,
+    values,
+    schemaOptions
+  )
 
-    if (validationResult.success) {
-      const submissionData: DynamicFormData = {
-        name: fieldControls.name ? String(data.name || '') : '',
-        description: fieldControls.description
-          ? String(data.description || '')
-          : '',
+  const enabledFields = definition.fields.filter((field) =>
+    isFieldEnabled(fieldControls, field)
+  )
+
+  // The resolver has already validated and transformed the data with the current configuration
+  const onSubmit = async (data: DynamicFormData) => {
+    try {
+      const result = await submit(data)
+
+      if (result.status === 'invalid') {
+        applySubmissionErrors(setError, result)
+        return
       }
-      setSubmittedData(submissionData)
-    } else {
-      console.error('Validation failed:', validationResult.error)
+
+      // Hidden fields are already left out by the schema
+      setSubmittedData(data)
+      discardDraft()
+    } catch (error) {
+      setError('root.server', {
+        type: 'server',
+        message: t(
+          isAbortError(error) ? 'submissionCancelled' : 'submissionFailed'
+        ),
+      })
     }
   }
 
@@ -72,120 +218,158 @@ function Demo() {
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-10">
         {/* Form Section - Left Column */}
         <div className="space-y-6 min-w-0">
-          <h1>Dynamic Schema Form</h1>
+          <div className="flex items-center justify-between gap-4">
+            <h1>{t('title')}</h1>
+            <label className="flex items-center gap-2 text-sm">
+              <span>{t('language')}</span>
+              <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="rounded border px-2 py-1"
+              >
+                {Object.entries(demoLocales).map(([value, name]) => (
+                  <option key={value} value={value}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Offer a draft saved before the last reload */}
+          {draft && (
+            <div
+              role="status"
+              className="bg-amber-50 border border-amber-200 p-4 rounded-lg space-y-3"
+            >
+              <p className="text-sm text-amber-800">
+                {t('draftAvailable', {
+                  savedAt: new Date(draft.savedAt).toLocaleString(locale),
+                })}
+              </p>
+              <div className="flex gap-4">
+                <Button type="button" size="sm" onClick={onRestoreDraft}>
+                  {t('restoreDraft')}
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={discardDraft}
+                >
+                  {t('discardDraft')}
+                </Button>
+              </div>
+            </div>
+          )}
+
           <Form {...form}>
             <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-              {/* Name Field - Conditional */}
-              {fieldControls.name && (
-                <FormField
-                  control={control}
-                  name="name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Name</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Enter name" {...field} />
-                      </FormControl>
-                      <FormMessage
-                        style={{ color: '#dc2626', fontWeight: '500' }}
-                      />
-                    </FormItem>
-                  )}
-                />
-              )}
-
-              {/* Description Field - Conditional */}
-              {fieldControls.description && (
-                <FormField
-                  control={control}
-                  name="description"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Description</FormLabel>
-                      <FormControl>
-                        <Textarea placeholder="Enter description" {...field} />
-                      </FormControl>
-                      <FormMessage
-                        style={{ color: '#dc2626', fontWeight: '500' }}
-                      />
-                    </FormItem>
-                  )}
-                />
-              )}
+              {/* Fields rendered from the form definition */}
+              <DynamicFormFields
+                definition={definition}
+                config={fieldControls}
+                options={schemaOptions}
+              />
 
               {/* Form Status */}
               <div className="bg-muted p-4 rounded-lg">
-                <h3 className="font-semibold mb-2">Form Status:</h3>
+                <h3 className="font-semibold mb-2">{t('formStatus')}</h3>
                 <div className="text-sm space-y-1">
                   <p>
-                    Valid:{' '}
+                    {t('valid')}{' '}
                     <span
                       className={isValid ? 'text-green-600' : 'text-red-600'}
                     >
-                      {isValid ? 'Yes' : 'No'}
+                      {t(isValid ? 'yes' : 'no')}
                     </span>
                   </p>
                   <p>
-                    Dirty:{' '}
+                    {t('dirty')}{' '}
                     <span
                       className={isDirty ? 'text-blue-600' : 'text-gray-600'}
                     >
-                      {isDirty ? 'Yes' : 'No'}
+                      {t(isDirty ? 'yes' : 'no')}
                     </span>
                   </p>
                   <p>
-                    Schema Type:{' '}
+                    {t('schemaType')}{' '}
                     <span className="text-blue-600">
-                      {fieldControls.name && fieldControls.description
-                        ? 'Full (name + description required)'
-                        : fieldControls.name && !fieldControls.description
-                        ? 'Name Only (description optional)'
-                        : !fieldControls.name && fieldControls.description
-                        ? 'Description Only (name optional)'
-                        : 'Minimal (both optional)'}
+                      {enabledFields.length === definition.fields.length
+                        ? t('schemaFull')
+                        : enabledFields.length === 0
+                        ? t('schemaMinimal')
+                        : t('schemaPartial', {
+                            fields: enabledFields
+                              .map((field) => field.label)
+                              .join(' + '),
+                          })}
                     </span>
                   </p>
                 </div>
               </div>
 
+              {/* Field errors from the last submit, linked to their fields */}
+              <FormErrorSummary title={t('errorSummaryTitle')} />
+
+              {errors.root?.server && (
+                <p
+                  role="alert"
+                  className="text-sm font-medium text-destructive"
+                >
+                  {errors.root.server.message}
+                </p>
+              )}
+
               <div className="flex gap-4">
-                <Button type="submit" disabled={!isValid}>
-                  Submit Form
-                </Button>
-                <Button type="button" variant="outline" onClick={() => reset()}>
-                  Reset Form
+                <Button type="submit" disabled={!isValid || isSubmitting}>
+                  {!isSubmitting
+                    ? t('submitForm')
+                    : attempt > 1
+                    ? t('retrying', { attempt })
+                    : t('submitting')}
                 </Button>
+                {isSubmitting ? (
+                  <Button type="button" variant="outline" onClick={cancel}>
+                    {t('cancel')}
+                  </Button>
+                ) : (
+                  <Button type="button" variant="outline" onClick={onReset}>
+                    {t('resetForm')}
+                  </Button>
+                )}
               </div>
             </form>
           </Form>
 
+          {/* Live form state while developing; renders nothing in production */}
+          <FormDevtools control={control} schema={schema} mode={FORM_MODE} />
+
           {/* Display submitted data */}
           {submittedData && (
             <div className="bg-green-50 border border-green-200 p-4 rounded-lg">
               <h3 className="font-semibold text-green-800 mb-2">
-                Form Successfully Submitted!
+                {t('submitted')}
               </h3>
               <div className="space-y-2 text-sm">
-                {submittedData.name && (
-                  <div>
-                    <strong className="text-green-800">Name:</strong>
-                    <span className="ml-2 text-green-700">
-                      {submittedData.name}
-                    </span>
-                  </div>
-                )}
-                {submittedData.description && (
-                  <div>
-                    <strong className="text-green-800">Description:</strong>
-                    <span className="ml-2 text-green-700">
-                      {submittedData.description}
-                    </span>
-                  </div>
-                )}
+                {definition.fields.map((field) => {
+                  const value = submittedData[field.name]
+
+                  return value === undefined ||
+                    value === '' ||
+                    (Array.isArray(value) && value.length === 0) ? null : (
+                    <div key={field.name}>
+                      <strong className="text-green-800">{field.label}:</strong>
+                      <span className="ml-2 text-green-700">
+                        {formatValue(value, locale, t)}
+                      </span>
+                    </div>
+                  )
+                })}
               </div>
               <details className="mt-3">
                 <summary className="cursor-pointer text-green-800 font-medium">
-                  View Raw JSON
+                  {t('viewRawJson')}
                 </summary>
                 <pre className="text-xs text-green-700 bg-green-100 p-2 rounded mt-2 overflow-auto">
                   {JSON.stringify(submittedData, null, 2)}
@@ -198,68 +382,68 @@ function Demo() {
         {/* Controls Section - Right Column */}
         <div className="space-y-6 min-w-0">
           <div className="space-y-2">
-            <h2 className="text-lg font-semibold">Schema Configuration</h2>
+            <h2 className="text-lg font-semibold">
+              {t('schemaConfiguration')}
+            </h2>
             <p className="text-muted-foreground">
-              Toggle field validation to see dynamic schema changes
+              {t('schemaConfigurationHint')}
             </p>
           </div>
 
-          <div className="bg-slate-50 p-4 rounded-lg border h-fit sticky top-6">
+          <div className="bg-slate-50 p-4 rounded-lg border h-fit">
             <div className="space-y-4">
-              <h3 className="font-medium">Field Controls</h3>
+              <h3 className="font-medium">{t('fieldControls')}</h3>
               <div className="flex flex-col gap-3">
-                {/* Name Control */}
-                <label className="flex items-center gap-2 text-sm">
-                  <input
-                    type="checkbox"
-                    checked={fieldControls.name}
-                    onChange={(e) => {
-                      setFieldControls({
-                        ...fieldControls,
-                        name: e.target.checked,
-                      })
-                    }}
-                    className="rounded"
-                  />
-                  <span>Enable Name Validation</span>
-                </label>
-
-                {/* Description Control */}
-                <label className="flex items-center gap-2 text-sm">
-                  <input
-                    type="checkbox"
-                    checked={fieldControls.description}
-                    onChange={(e) => {
-                      setFieldControls({
-                        ...fieldControls,
-                        description: e.target.checked,
-                      })
-                    }}
-                    className="rounded"
-                  />
-                  <span>Enable Description Validation</span>
-                </label>
+                {definition.fields.map((field) => (
+                  <label
+                    key={field.name}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isFieldEnabled(fieldControls, field)}
+                      onChange={(e) => {
+                        setFieldControls({
+                          ...fieldControls,
+                          [field.name]: e.target.checked,
+                        })
+                      }}
+                      className="rounded"
+                    />
+                    <span>{t('enableField', { label: field.label })}</span>
+                  </label>
+                ))}
               </div>
 
               <div className="mt-4 p-3 bg-blue-50 rounded border">
                 <h4 className="text-sm font-medium text-blue-800">
-                  Current Schema Rules:
+                  {t('currentRules')}
                 </h4>
-                <div className="text-xs text-blue-700 mt-1 space-y-1">
-                  {fieldControls.name ? (
-                    <div>• Name: Required (1-50 chars)</div>
-                  ) : (
-                    <div>• Name: Optional (not validated)</div>
-                  )}
-                  {fieldControls.description ? (
-                    <div>• Description: Required (6-500 chars)</div>
-                  ) : (
-                    <div>• Description: Optional (not validated)</div>
-                  )}
-                </div>
+                {/* Read from the same schema the resolver validates with */}
+                <SchemaRulesList
+                  definition={definition}
+                  schema={schema}
+                  translate={t}
+                  className="text-xs text-blue-700 mt-1"
+                />
               </div>
             </div>
           </div>
+
+          <div className="bg-slate-50 p-4 rounded-lg border space-y-4">
+            <div className="space-y-1">
+              <h3 className="font-medium">{t('formBuilder')}</h3>
+              <p className="text-sm text-muted-foreground">
+                {t('formBuilderHint')}
+              </p>
+            </div>
+            {/* Edits the untranslated definition; the form on the left is its live preview */}
+            <FormBuilder
+              definition={authoredDefinition}
+              onChange={onDefinitionChange}
+              translate={t}
+            />
+          </div>
         </div>
       </div>
     </div>
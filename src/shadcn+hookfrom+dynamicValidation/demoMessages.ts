@@ -0,0 +1,138 @@
+import type { Locale, MessageCatalog } from './i18n'
+
+/**
+ * Names of the locales the demo pages can switch between, in their own language
+ */
+export const demoLocales: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+}
+
+/**
+ * Demo page text, keyed by message key
+ */
+const en = {
+  title: 'Dynamic Schema Form',
+  wizardTitle: 'Dynamic Schema Wizard',
+  language: 'Language',
+  draftAvailable: 'You have an unsaved draft from {savedAt}.',
+  restoreDraft: 'Restore Draft',
+  discardDraft: 'Discard',
+  formStatus: 'Form Status:',
+  valid: 'Valid:',
+  dirty: 'Dirty:',
+  yes: 'Yes',
+  no: 'No',
+  schemaType: 'Schema Type:',
+  schemaFull: 'Full (all fields validated)',
+  schemaMinimal: 'Minimal (all fields optional)',
+  schemaPartial: 'Partial ({fields} validated)',
+  submitting: 'Submitting...',
+  retrying: 'Retrying (attempt {attempt})...',
+  cancel: 'Cancel',
+  resetForm: 'Reset Form',
+  submissionCancelled: 'Submission cancelled',
+  submissionFailed: 'Submission failed, please try again',
+  submitted: 'Form Successfully Submitted!',
+  errorSummaryTitle: 'Please fix the following errors',
+  items_one: '{count} item',
+  items_other: '{count} items',
+  viewRawJson: 'View Raw JSON',
+  schemaConfiguration: 'Schema Configuration',
+  schemaConfigurationHint:
+    'Toggle field validation or edit the form definition to see dynamic schema changes',
+  fieldControls: 'Field Controls',
+  enableField: 'Enable {label} Validation',
+  currentRules: 'Current Schema Rules:',
+  formBuilder: 'Form Builder',
+  formBuilderHint:
+    'Add, reorder and configure fields; the form on the left updates as you edit',
+}
+
+/**
+ * Demo page text and form definition translations for every supported locale
+ * The form definition's own English text is its message key, so English needs no entries for it
+ */
+export const demoMessages: Record<Locale, MessageCatalog> = {
+  en,
+  de: {
+    title: 'Dynamisches Schema-Formular',
+    wizardTitle: 'Dynamischer Schema-Assistent',
+    language: 'Sprache',
+    draftAvailable: 'Sie haben einen ungespeicherten Entwurf vom {savedAt}.',
+    restoreDraft: 'Entwurf wiederherstellen',
+    discardDraft: 'Verwerfen',
+    formStatus: 'Formularstatus:',
+    valid: 'Gültig:',
+    dirty: 'Geändert:',
+    yes: 'Ja',
+    no: 'Nein',
+    schemaType: 'Schematyp:',
+    schemaFull: 'Vollständig (alle Felder validiert)',
+    schemaMinimal: 'Minimal (alle Felder optional)',
+    schemaPartial: 'Teilweise ({fields} validiert)',
+    submitting: 'Wird gesendet...',
+    retrying: 'Neuer Versuch ({attempt})...',
+    cancel: 'Abbrechen',
+    resetForm: 'Formular zurücksetzen',
+    submissionCancelled: 'Senden abgebrochen',
+    submissionFailed: 'Senden fehlgeschlagen, bitte erneut versuchen',
+    submitted: 'Formular erfolgreich gesendet!',
+    errorSummaryTitle: 'Bitte beheben Sie die folgenden Fehler',
+    items_one: '{count} Eintrag',
+    items_other: '{count} Einträge',
+    viewRawJson: 'JSON anzeigen',
+    schemaConfiguration: 'Schema-Konfiguration',
+    schemaConfigurationHint:
+      'Validierung einzelner Felder umschalten oder die Formulardefinition bearbeiten, um das Schema zu ändern',
+    fieldControls: 'Feldsteuerung',
+    enableField: '{label} validieren',
+    currentRules: 'Aktuelle Schema-Regeln:',
+    formBuilder: 'Formular-Builder',
+    formBuilderHint:
+      'Felder hinzufügen, anordnen und konfigurieren; das Formular links wird direkt aktualisiert',
+
+    // Form definition
+    Name: 'Name',
+    'Enter name': 'Namen eingeben',
+    Description: 'Beschreibung',
+    'Enter description': 'Beschreibung eingeben',
+    Age: 'Alter',
+    'Enter age': 'Alter eingeben',
+    'You must be at least 18': 'Sie müssen mindestens 18 Jahre alt sein',
+    Company: 'Firma',
+    'Enter company (optional)': 'Firma eingeben (optional)',
+    'Job Title': 'Berufsbezeichnung',
+    'Enter job title': 'Berufsbezeichnung eingeben',
+    Role: 'Rolle',
+    'Select a role': 'Rolle auswählen',
+    Developer: 'Entwickler:in',
+    Designer: 'Designer:in',
+    Manager: 'Manager:in',
+    'Start Date': 'Startdatum',
+    Contacts: 'Kontakte',
+    Contact: 'Kontakt',
+    'Contact Name': 'Kontaktname',
+    'Enter contact name': 'Kontaktnamen eingeben',
+    Email: 'E-Mail',
+    'Enter a valid email address': 'Geben Sie eine gültige E-Mail-Adresse ein',
+    'Preferred Contact Method': 'Bevorzugter Kontaktweg',
+    Phone: 'Telefon',
+    'Subscribe to the newsletter': 'Newsletter abonnieren',
+    'I accept the terms and conditions': 'Ich akzeptiere die AGB',
+    'You must accept the terms': 'Sie müssen die AGB akzeptieren',
+    Details: 'Angaben',
+    'Tell us who you are': 'Erzählen Sie uns, wer Sie sind',
+    Work: 'Arbeit',
+    'Where do you work?': 'Wo arbeiten Sie?',
+    'Who should we get in touch with?': 'Wen sollen wir kontaktieren?',
+    Preferences: 'Einstellungen',
+    'How should we keep in touch?': 'Wie sollen wir in Kontakt bleiben?',
+
+    // Demo validation
+    'Description must not repeat the name':
+      'Die Beschreibung darf den Namen nicht wiederholen',
+    'Name "{value}" is already taken':
+      'Der Name „{value}“ ist bereits vergeben',
+  },
+}
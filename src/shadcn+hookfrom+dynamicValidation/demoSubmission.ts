@@ -0,0 +1,29 @@
+import { createMockSubmissionAdapter } from './submission'
+
+/**
+ * Creates the mock backend the demo submits to
+ * The first attempt fails to show retrying, and the server rejects example.com contact emails
+ * Every demo mount creates its own adapter, so the failed first attempt isn't used up by an earlier one
+ */
+export function createDemoSubmissionAdapter() {
+  return createMockSubmissionAdapter({
+    failures: 1,
+    validate: (data) => {
+      const contacts = Array.isArray(data.contacts) ? data.contacts : []
+
+      return Object.fromEntries(
+        contacts.flatMap((contact, index) =>
+          typeof contact.email === 'string' &&
+          contact.email.endsWith('@example.com')
+            ? [
+                [
+                  `contacts.${index}.email`,
+                  'example.com addresses are not accepted',
+                ],
+              ]
+            : []
+        )
+      )
+    },
+  })
+}
@@ -0,0 +1,39 @@
+import {
+  debounceAsyncValidator,
+  mustNotRepeat,
+  type DynamicSchemaOptions,
+} from './validators'
+
+const takenNames = ['admin', 'root', 'test']
+
+/**
+ * Mock uniqueness check standing in for a server request
+ * Resolves with a message key; `{value}` is filled in with the checked name
+ */
+function checkNameAvailable(value: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    setTimeout(() => {
+      resolve(
+        takenNames.includes(value.trim().toLowerCase())
+          ? 'Name "{value}" is already taken'
+          : undefined
+      )
+    }, 500)
+  })
+}
+
+/**
+ * Cross-field refinements and async validators registered by the demo
+ */
+export const demoSchemaOptions: DynamicSchemaOptions = {
+  refinements: [
+    mustNotRepeat(
+      'description',
+      'name',
+      'Description must not repeat the name'
+    ),
+  ],
+  asyncValidators: {
+    name: debounceAsyncValidator(checkNameAvailable),
+  },
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  clearDraft,
+  createMemoryStorage,
+  getDraftValues,
+  loadDraft,
+  saveDraft,
+  type DraftOptions,
+  type FormDraft,
+} from './drafts'
+import type { FormDefinition } from './types'
+
+const key = 'test-draft'
+
+function storedDraft(draft: Partial<FormDraft>) {
+  return JSON.stringify({
+    version: 1,
+    savedAt: '2024-01-01T00:00:00.000Z',
+    values: {},
+    config: {},
+    ...draft,
+  })
+}
+
+describe('drafts', () => {
+  it('restores a saved draft', () => {
+    const options: DraftOptions = {
+      key,
+      version: 1,
+      storage: createMemoryStorage(),
+    }
+
+    saveDraft(options, { name: 'Ada', terms: true }, { showCompany: true })
+
+    expect(loadDraft(options)).toMatchObject({
+      version: 1,
+      values: { name: 'Ada', terms: true },
+      config: { showCompany: true },
+    })
+  })
+
+  it('discards a cleared draft', () => {
+    const storage = createMemoryStorage({ [key]: storedDraft({}) })
+    const options: DraftOptions = { key, version: 1, storage }
+
+    clearDraft(options)
+
+    expect(storage.getItem(key)).toBeNull()
+    expect(loadDraft(options)).toBeNull()
+  })
+
+  it('migrates drafts saved with an older version', () => {
+    const storage = createMemoryStorage({
+      [key]: storedDraft({ values: { fullName: 'Ada' } }),
+    })
+
+    const draft = loadDraft({
+      key,
+      version: 2,
+      storage,
+      migrations: {
+        1: ({ values: { fullName, ...values }, ...draft }) => ({
+          ...draft,
+          version: 2,
+          values: { ...values, name: fullName },
+        }),
+      },
+    })
+
+    expect(draft).toMatchObject({ version: 2, values: { name: 'Ada' } })
+  })
+
+  it('discards drafts without a migration path', () => {
+    const storage = createMemoryStorage({ [key]: storedDraft({}) })
+
+    expect(loadDraft({ key, version: 3, storage })).toBeNull()
+    expect(storage.getItem(key)).toBeNull()
+  })
+
+  it.each([
+    ['invalid JSON', '{"version": 1,'],
+    ['a malformed draft', storedDraft({ values: { name: 42 } as never })],
+  ])('discards %s', (_, stored) => {
+    const storage = createMemoryStorage({ [key]: stored })
+
+    expect(loadDraft({ key, version: 1, storage })).toBeNull()
+    expect(storage.getItem(key)).toBeNull()
+  })
+})
+
+describe('getDraftValues', () => {
+  it('drops unknown fields and falls back to defaults for mismatched values', () => {
+    const definition: FormDefinition = {
+      fields: [
+        { name: 'name', type: 'text', label: 'Name', defaultValue: 'Guest' },
+        { name: 'terms', type: 'checkbox', label: 'Terms' },
+      ],
+    }
+
+    expect(
+      getDraftValues(definition, { name: true, terms: true, removed: 'x' })
+    ).toEqual({ name: 'Guest', terms: true })
+  })
+})
@@ -0,0 +1,206 @@
+import * as z from 'zod'
+import { getDefaultValues } from './schemas'
+import type {
+  DynamicFormValues,
+  FieldConfiguration,
+  FormDefinition,
+} from './types'
+
+/**
+ * Storage adapter drafts are written to
+ * Matches the synchronous subset of the Web Storage API
+ */
+export interface DraftStorage {
+  getItem: (key: string) => string | null
+  setItem: (key: string, value: string) => void
+  removeItem: (key: string) => void
+}
+
+/**
+ * Draft persisted for a form
+ * `version` ties the draft to the form definition it was saved from
+ */
+export interface FormDraft {
+  version: number
+  savedAt: string
+  values: DynamicFormValues
+  config: FieldConfiguration
+}
+
+/**
+ * Upgrades a draft saved with an older version by one version
+ * Returning null discards the draft
+ */
+export type DraftMigration = (draft: FormDraft) => FormDraft | null
+
+/**
+ * Where and how a form's draft is stored
+ * `migrations` is keyed by the version a migration upgrades from
+ */
+export interface DraftOptions {
+  key: string
+  version: number
+  storage?: DraftStorage
+  migrations?: Partial<Record<number, DraftMigration>>
+}
+
+/**
+ * Default storage adapter backed by window.localStorage
+ */
+export const localStorageAdapter: DraftStorage = {
+  getItem: (key) => window.localStorage.getItem(key),
+  setItem: (key, value) => window.localStorage.setItem(key, value),
+  removeItem: (key) => window.localStorage.removeItem(key),
+}
+
+/**
+ * Creates a storage adapter that keeps drafts in memory, for tests
+ *
+ * @param initial - Entries to seed the storage with
+ * @returns In-memory storage adapter
+ */
+export function createMemoryStorage(
+  initial: Record<string, string> = {}
+): DraftStorage {
+  const entries = new Map(Object.entries(initial))
+
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value)
+    },
+    removeItem: (key) => {
+      entries.delete(key)
+    },
+  }
+}
+
+/**
+ * Schema guarding drafts read back from storage
+ */
+const formDraftSchema = z.object({
+  version: z.number().int(),
+  savedAt: z.string(),
+  values: z.record(
+    z.string(),
+    z.union([
+      z.string(),
+      z.boolean(),
+      z.array(z.record(z.string(), z.union([z.string(), z.boolean()]))),
+    ])
+  ),
+  config: z.record(z.string(), z.boolean()),
+})
+
+/**
+ * Saves a draft of the current form values and field configuration
+ * Storage errors (quota, private mode) are logged and otherwise ignored
+ *
+ * @param options - Draft options
+ * @param values - Current form values
+ * @param config - Current field configuration
+ */
+export function saveDraft(
+  options: DraftOptions,
+  values: DynamicFormValues,
+  config: FieldConfiguration
+) {
+  const { key, version, storage = localStorageAdapter } = options
+  const draft: FormDraft = {
+    version,
+    savedAt: new Date().toISOString(),
+    values,
+    config,
+  }
+
+  try {
+    storage.setItem(key, JSON.stringify(draft))
+  } catch (error) {
+    console.warn('Failed to save draft:', error)
+  }
+}
+
+/**
+ * Removes the stored draft
+ *
+ * @param options - Draft options
+ */
+export function clearDraft(options: DraftOptions) {
+  const { key, storage = localStorageAdapter } = options
+
+  try {
+    storage.removeItem(key)
+  } catch (error) {
+    console.warn('Failed to clear draft:', error)
+  }
+}
+
+/**
+ * Loads the stored draft, migrating it to the current version
+ * Malformed drafts, and drafts that cannot be migrated, are discarded
+ *
+ * @param options - Draft options
+ * @returns The draft, or null when there is no usable draft
+ */
+export function loadDraft(options: DraftOptions): FormDraft | null {
+  const {
+    key,
+    version,
+    storage = localStorageAdapter,
+    migrations = {},
+  } = options
+
+  let draft: FormDraft | null
+  try {
+    const stored = storage.getItem(key)
+    if (stored === null) {
+      return null
+    }
+    const result = formDraftSchema.safeParse(JSON.parse(stored))
+    draft = result.success ? result.data : null
+  } catch {
+    draft = null
+  }
+
+  while (draft && draft.version < version) {
+    const migrate = migrations[draft.version]
+    draft = migrate ? migrate(draft) : null
+  }
+
+  if (!draft || draft.version !== version) {
+    clearDraft(options)
+    return null
+  }
+
+  return draft
+}
+
+/**
+ * Fits draft values onto a form definition
+ * Unknown fields are dropped and fields with the wrong kind of value fall back to their defaults,
+ * so a draft can never feed the resolver values it does not expect
+ *
+ * @param definition - Form definition the values are restored into
+ * @param values - Values from the draft
+ * @returns Values safe to pass to reset()
+ */
+export function getDraftValues(
+  definition: FormDefinition,
+  values: DynamicFormValues
+): DynamicFormValues {
+  const defaults = getDefaultValues(definition)
+
+  return Object.fromEntries(
+    definition.fields.map((field) => {
+      const value = values[field.name]
+      const matches =
+        field.type === 'group'
+          ? Array.isArray(value)
+          : field.type === 'checkbox' || field.type === 'switch'
+          ? typeof value === 'boolean'
+          : typeof value === 'string'
+
+      return [field.name, matches ? value : defaults[field.name]]
+    })
+  )
+}
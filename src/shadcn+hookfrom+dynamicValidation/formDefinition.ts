@@ -0,0 +1,148 @@
+import type { FormDefinition } from './types'
+
+/**
+ * Form definition rendered by the demo
+ * Adding a field here is enough for it to be rendered and validated
+ * Declared `as const` so the form's values and data are typed from it
+ */
+export const demoFormDefinition = {
+  fields: [
+    {
+      name: 'name',
+      type: 'text',
+      label: 'Name',
+      placeholder: 'Enter name',
+      required: true,
+      constraints: { maxLength: 50 },
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+      label: 'Description',
+      placeholder: 'Enter description',
+      required: true,
+      constraints: { minLength: 6, maxLength: 500 },
+    },
+    {
+      name: 'age',
+      type: 'number',
+      label: 'Age',
+      placeholder: 'Enter age',
+      required: true,
+      constraints: { min: 18, max: 120 },
+      messages: { min: 'You must be at least 18' },
+    },
+    {
+      name: 'company',
+      type: 'text',
+      label: 'Company',
+      placeholder: 'Enter company (optional)',
+      constraints: { maxLength: 100 },
+    },
+    {
+      name: 'jobTitle',
+      type: 'text',
+      label: 'Job Title',
+      placeholder: 'Enter job title',
+      constraints: { maxLength: 100 },
+      visibleWhen: [{ field: 'company', operator: 'isNotEmpty' }],
+      requiredWhen: [
+        { field: 'company', operator: 'notEquals', value: 'Self-employed' },
+      ],
+    },
+    {
+      name: 'role',
+      type: 'select',
+      label: 'Role',
+      placeholder: 'Select a role',
+      options: [
+        { value: 'developer', label: 'Developer' },
+        { value: 'designer', label: 'Designer' },
+        { value: 'manager', label: 'Manager' },
+      ],
+    },
+    {
+      name: 'startDate',
+      type: 'date',
+      label: 'Start Date',
+      constraints: { minDate: '2000-01-01' },
+      visibleWhen: [{ field: 'company', operator: 'isNotEmpty' }],
+    },
+    {
+      name: 'contacts',
+      type: 'group',
+      label: 'Contacts',
+      itemLabel: 'Contact',
+      minItems: 1,
+      maxItems: 3,
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          label: 'Contact Name',
+          placeholder: 'Enter contact name',
+          required: true,
+          constraints: { maxLength: 50 },
+        },
+        {
+          name: 'email',
+          type: 'text',
+          label: 'Email',
+          placeholder: 'name@example.com',
+          required: true,
+          constraints: { pattern: '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$' },
+          messages: { pattern: 'Enter a valid email address' },
+        },
+      ],
+    },
+    {
+      name: 'contactMethod',
+      type: 'radio',
+      label: 'Preferred Contact Method',
+      required: true,
+      defaultValue: 'email',
+      options: [
+        { value: 'email', label: 'Email' },
+        { value: 'phone', label: 'Phone' },
+      ],
+    },
+    {
+      name: 'newsletter',
+      type: 'switch',
+      label: 'Subscribe to the newsletter',
+    },
+    {
+      name: 'terms',
+      type: 'checkbox',
+      label: 'I accept the terms and conditions',
+      required: true,
+      messages: { required: 'You must accept the terms' },
+    },
+  ],
+  steps: [
+    {
+      id: 'details',
+      title: 'Details',
+      description: 'Tell us who you are',
+      fields: ['name', 'description', 'age'],
+    },
+    {
+      id: 'work',
+      title: 'Work',
+      description: 'Where do you work?',
+      fields: ['company', 'jobTitle', 'role', 'startDate'],
+    },
+    {
+      id: 'contacts',
+      title: 'Contacts',
+      description: 'Who should we get in touch with?',
+      fields: ['contacts'],
+    },
+    {
+      id: 'preferences',
+      title: 'Preferences',
+      description: 'How should we keep in touch?',
+      fields: ['contactMethod', 'newsletter', 'terms'],
+    },
+  ],
+} as const satisfies FormDefinition
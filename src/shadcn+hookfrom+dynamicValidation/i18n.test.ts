@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest'
+import * as z from 'zod'
+import {
+  createErrorMap,
+  createTranslator,
+  localizeDefinition,
+  messageCatalogs,
+} from './i18n'
+import { validateFormData } from './schemas'
+import type { FormDefinition } from './types'
+
+const english = createTranslator('en')
+const german = createTranslator('de')
+
+/**
+ * Messages of the issues a schema reports for a value, resolved through the error map
+ */
+function getMessages(schema: z.ZodType, value: unknown, translate = english) {
+  const result = schema.safeParse(value, { error: createErrorMap(translate) })
+  return result.error?.issues.map((issue) => issue.message)
+}
+
+describe('createTranslator', () => {
+  it('interpolates values and leaves unknown placeholders alone', () => {
+    expect(english('stepProgress', { step: 2, total: 4 })).toBe('Step 2 of 4')
+    expect(english('required')).toBe('{label} is required')
+  })
+
+  it('picks the plural form for the count', () => {
+    expect(english('ruleMinItems', { count: 1 })).toBe('At least 1 item')
+    expect(english('ruleMinItems', { count: 3 })).toBe('At least 3 items')
+    expect(german('minItems', { label: 'Kontakte', count: 1 })).toBe(
+      'Kontakte braucht mindestens 1 Eintrag'
+    )
+    expect(german('minItems', { label: 'Kontakte', count: 2 })).toBe(
+      'Kontakte braucht mindestens 2 Einträge'
+    )
+  })
+
+  it('prefers extra messages over the built-in ones', () => {
+    const translate = createTranslator('de', { next: 'Vor', title: 'Titel' })
+
+    expect(translate('next')).toBe('Vor')
+    expect(translate('title')).toBe('Titel')
+    expect(translate('back')).toBe('Zurück')
+  })
+
+  it('falls back to the key, which is the English text, for missing messages', () => {
+    expect(german('Enter your name')).toBe('Enter your name')
+    expect(german('Hello {name}', { name: 'Ada' })).toBe('Hello Ada')
+  })
+
+  it('has every built-in message in every locale', () => {
+    expect(Object.keys(messageCatalogs.de).sort()).toEqual(
+      Object.keys(messageCatalogs.en).sort()
+    )
+  })
+})
+
+describe('createErrorMap', () => {
+  it('translates the message key of custom issues', () => {
+    const schema = z.string().refine((value) => value !== 'admin', {
+      params: {
+        message: 'Name "{value}" is already taken',
+        values: { value: 'admin' },
+      },
+    })
+    const translate = createTranslator('de', {
+      'Name "{value}" is already taken':
+        'Der Name „{value}“ ist bereits vergeben',
+    })
+
+    expect(getMessages(schema, 'admin', translate)).toEqual([
+      'Der Name „admin“ ist bereits vergeben',
+    ])
+  })
+
+  it.each([
+    ['too_small', z.string().min(2), 'a'],
+    ['too_big', z.number().max(1), 2],
+    ['invalid_value', z.enum(['a', 'b']), 'c'],
+  ])(
+    'maps %s issues without a message to the generic message',
+    (code, schema, value) => {
+      const result = schema.safeParse(value, {
+        error: createErrorMap(german),
+      })
+
+      expect(result.error?.issues[0]).toMatchObject({
+        code,
+        message: messageCatalogs.de.invalid,
+      })
+    }
+  )
+
+  it('leaves messages set by the schema alone', () => {
+    expect(getMessages(z.string().min(2, 'Too short'), 'a')).toEqual([
+      'Too short',
+    ])
+  })
+})
+
+describe('built-in validation messages', () => {
+  const definition: FormDefinition = {
+    fields: [
+      {
+        name: 'name',
+        type: 'text',
+        label: 'Name',
+        required: true,
+        constraints: { minLength: 3, maxLength: 5 },
+      },
+      {
+        name: 'role',
+        type: 'select',
+        label: 'Rolle',
+        options: [{ value: 'dev', label: 'Dev' }],
+      },
+    ],
+  }
+
+  it.each([
+    [
+      'too_small',
+      { name: 'Al', role: '' },
+      'Name muss mindestens 3 Zeichen lang sein',
+    ],
+    [
+      'too_big',
+      { name: 'Ada Lovelace', role: '' },
+      'Name muss kürzer als 5 Zeichen sein',
+    ],
+    [
+      'invalid_value',
+      { name: 'Ada', role: 'ceo' },
+      'Rolle muss eine der Optionen sein',
+    ],
+  ])('resolves %s issues through the catalog', (code, values, message) => {
+    const result = validateFormData(
+      values,
+      definition,
+      { name: true, role: true },
+      {
+        locale: 'de',
+      }
+    )
+
+    expect(result.error?.issues[0]).toMatchObject({ code, message })
+  })
+})
+
+describe('localizeDefinition', () => {
+  it('translates display text and keeps names, values and rules', () => {
+    const definition: FormDefinition = {
+      fields: [
+        {
+          name: 'role',
+          type: 'select',
+          label: 'Role',
+          placeholder: 'Select a role',
+          required: true,
+          options: [{ value: 'dev', label: 'Developer' }],
+        },
+        {
+          name: 'contacts',
+          type: 'group',
+          label: 'Contacts',
+          itemLabel: 'Contact',
+          fields: [{ name: 'email', type: 'text', label: 'Email' }],
+        },
+      ],
+      steps: [
+        {
+          id: 'work',
+          title: 'Work',
+          description: 'Where do you work?',
+          fields: ['role', 'contacts'],
+        },
+      ],
+    }
+    const translate = createTranslator('de', {
+      Role: 'Rolle',
+      'Select a role': 'Rolle auswählen',
+      Developer: 'Entwickler:in',
+      Contacts: 'Kontakte',
+      Contact: 'Kontakt',
+      Work: 'Arbeit',
+    })
+
+    expect(localizeDefinition(definition, translate)).toEqual({
+      fields: [
+        {
+          name: 'role',
+          type: 'select',
+          label: 'Rolle',
+          placeholder: 'Rolle auswählen',
+          required: true,
+          options: [{ value: 'dev', label: 'Entwickler:in' }],
+        },
+        {
+          name: 'contacts',
+          type: 'group',
+          label: 'Kontakte',
+          itemLabel: 'Kontakt',
+          fields: [{ name: 'email', type: 'text', label: 'Email' }],
+        },
+      ],
+      steps: [
+        {
+          id: 'work',
+          title: 'Arbeit',
+          description: 'Where do you work?',
+          fields: ['role', 'contacts'],
+        },
+      ],
+    })
+  })
+})
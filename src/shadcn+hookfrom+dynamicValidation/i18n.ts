@@ -0,0 +1,340 @@
+import type * as z from 'zod'
+import type {
+  FieldDefinition,
+  FormDefinition,
+  ScalarFieldDefinition,
+} from './types'
+
+/**
+ * Locales the built-in message catalog is available in
+ */
+export type Locale = 'en' | 'de'
+
+export const defaultLocale: Locale = 'en'
+
+/**
+ * Values interpolated into a message's `{name}` placeholders
+ */
+export type MessageValues = Record<string, string | number>
+
+/**
+ * Message templates keyed by message key
+ * Plural forms are keyed `<key>_one` / `<key>_other` and picked by the `count` value
+ */
+export type MessageCatalog = Record<string, string>
+
+/**
+ * Resolves a message key to text in a fixed locale
+ * Keys missing from the catalog are used as the template themselves
+ */
+export type Translate = (key: string, values?: MessageValues) => string
+
+const en = {
+  required: '{label} is required',
+  minLength: '{label} must be at least {minLength} characters',
+  maxLength: '{label} must be less than {maxLength} characters',
+  pattern: '{label} has an invalid format',
+  invalidNumber: '{label} must be a number',
+  min: '{label} must be at least {min}',
+  max: '{label} must be at most {max}',
+  invalidDate: '{label} must be a valid date',
+  minDate: '{label} must be on or after {minDate}',
+  maxDate: '{label} must be on or before {maxDate}',
+  invalidOption: '{label} must be one of the options',
+  mustBeChecked: '{label} must be checked',
+  minItems_one: '{label} must have at least {count} item',
+  minItems_other: '{label} must have at least {count} items',
+  maxItems_one: '{label} can have at most {count} item',
+  maxItems_other: '{label} can have at most {count} items',
+  invalid: 'Invalid value',
+  validating: 'Validating...',
+  selectOption: 'Select an option',
+  defaultItemLabel: 'Item',
+  itemTitle: '{item} {index}',
+  addItem: 'Add {item}',
+  moveItemUp: 'Move {item} up',
+  moveItemDown: 'Move {item} down',
+  removeItem: 'Remove {item}',
+  defaultStepTitle: 'Form',
+  formProgress: 'Form progress',
+  stepProgress: 'Step {step} of {total}',
+  back: 'Back',
+  next: 'Next',
+  submitForm: 'Submit Form',
+  ruleHidden: 'Hidden (rule not met)',
+  ruleNotValidated: 'Optional (not validated)',
+  ruleRequired: 'Required',
+  ruleOptional: 'Optional',
+  ruleChecked: 'Must be checked',
+  ruleItemRange: '{min}-{max} items',
+  ruleMinItems_one: 'At least {count} item',
+  ruleMinItems_other: 'At least {count} items',
+  ruleValueRange: '{status} ({min} to {max})',
+  ruleOptions: '{status} ({count} options)',
+  ruleLengthRange: '{status} ({min}-{max} chars)',
+  ruleMinLength: '{status} (min {min} chars)',
+  rulePattern: '{rules}, pattern {pattern}',
+  ruleAny: 'any',
+  addField: 'Add Field',
+  addItemField: 'Add Item Field',
+  noFields: 'No fields yet',
+  fieldName: 'Field name',
+  fieldNameInvalid:
+    'Field name must start with a letter and contain only letters, digits and underscores',
+  fieldNameTaken: 'Another field is already named {name}',
+  fieldLabel: 'Label',
+  fieldType: 'Type',
+  fieldPlaceholder: 'Placeholder',
+  fieldRequired: 'Required',
+  fieldMessages: 'Messages',
+  fieldMessage: '{rule} message',
+  typeText: 'Text',
+  typeTextarea: 'Text area',
+  typeNumber: 'Number',
+  typeDate: 'Date',
+  typeSelect: 'Select',
+  typeRadio: 'Radio buttons',
+  typeCheckbox: 'Checkbox',
+  typeSwitch: 'Switch',
+  typeGroup: 'Repeatable group',
+  constraintMinLength: 'Min length',
+  constraintMaxLength: 'Max length',
+  constraintPattern: 'Pattern',
+  patternInvalid: 'Pattern must be a valid regular expression',
+  constraintMin: 'Minimum',
+  constraintMax: 'Maximum',
+  constraintMinDate: 'Earliest date',
+  constraintMaxDate: 'Latest date',
+  constraintMinItems: 'Min items',
+  constraintMaxItems: 'Max items',
+  itemLabel: 'Item label',
+  itemFields: 'Item fields',
+  options: 'Options',
+  optionTitle: 'Option {index}',
+  optionValue: 'Option {index} value',
+  optionLabel: 'Option {index} label',
+  addOption: 'Add Option',
+  exportJson: 'Export JSON',
+  importJson: 'Import JSON',
+  importFailed: '{file} is not a valid form definition',
+}
+
+type CatalogKey = keyof typeof en
+
+/**
+ * Keys of the built-in messages, with plural forms under their base key
+ */
+export type MessageKey = CatalogKey extends infer Key
+  ? Key extends `${infer Base}_${'one' | 'other'}`
+    ? Base
+    : Key
+  : never
+
+/**
+ * Built-in messages for every supported locale
+ */
+export const messageCatalogs: Record<Locale, Record<CatalogKey, string>> = {
+  en,
+  de: {
+    required: '{label} ist erforderlich',
+    minLength: '{label} muss mindestens {minLength} Zeichen lang sein',
+    maxLength: '{label} muss kürzer als {maxLength} Zeichen sein',
+    pattern: '{label} hat ein ungültiges Format',
+    invalidNumber: '{label} muss eine Zahl sein',
+    min: '{label} muss mindestens {min} sein',
+    max: '{label} darf höchstens {max} sein',
+    invalidDate: '{label} muss ein gültiges Datum sein',
+    minDate: '{label} darf nicht vor dem {minDate} liegen',
+    maxDate: '{label} darf nicht nach dem {maxDate} liegen',
+    invalidOption: '{label} muss eine der Optionen sein',
+    mustBeChecked: '{label} muss angehakt sein',
+    minItems_one: '{label} braucht mindestens {count} Eintrag',
+    minItems_other: '{label} braucht mindestens {count} Einträge',
+    maxItems_one: '{label} darf höchstens {count} Eintrag haben',
+    maxItems_other: '{label} darf höchstens {count} Einträge haben',
+    invalid: 'Ungültiger Wert',
+    validating: 'Wird geprüft...',
+    selectOption: 'Option auswählen',
+    defaultItemLabel: 'Eintrag',
+    itemTitle: '{item} {index}',
+    addItem: '{item} hinzufügen',
+    moveItemUp: '{item} nach oben verschieben',
+    moveItemDown: '{item} nach unten verschieben',
+    removeItem: '{item} entfernen',
+    defaultStepTitle: 'Formular',
+    formProgress: 'Formularfortschritt',
+    stepProgress: 'Schritt {step} von {total}',
+    back: 'Zurück',
+    next: 'Weiter',
+    submitForm: 'Formular absenden',
+    ruleHidden: 'Ausgeblendet (Regel nicht erfüllt)',
+    ruleNotValidated: 'Optional (nicht validiert)',
+    ruleRequired: 'Erforderlich',
+    ruleOptional: 'Optional',
+    ruleChecked: 'Muss angehakt sein',
+    ruleItemRange: '{min}-{max} Einträge',
+    ruleMinItems_one: 'Mindestens {count} Eintrag',
+    ruleMinItems_other: 'Mindestens {count} Einträge',
+    ruleValueRange: '{status} ({min} bis {max})',
+    ruleOptions: '{status} ({count} Optionen)',
+    ruleLengthRange: '{status} ({min}-{max} Zeichen)',
+    ruleMinLength: '{status} (mind. {min} Zeichen)',
+    rulePattern: '{rules}, Muster {pattern}',
+    ruleAny: 'beliebig',
+    addField: 'Feld hinzufügen',
+    addItemField: 'Eintragsfeld hinzufügen',
+    noFields: 'Noch keine Felder',
+    fieldName: 'Feldname',
+    fieldNameInvalid:
+      'Feldname muss mit einem Buchstaben beginnen und darf nur Buchstaben, Ziffern und Unterstriche enthalten',
+    fieldNameTaken: 'Ein anderes Feld heißt bereits {name}',
+    fieldLabel: 'Beschriftung',
+    fieldType: 'Typ',
+    fieldPlaceholder: 'Platzhalter',
+    fieldRequired: 'Erforderlich',
+    fieldMessages: 'Meldungen',
+    fieldMessage: 'Meldung für {rule}',
+    typeText: 'Text',
+    typeTextarea: 'Textbereich',
+    typeNumber: 'Zahl',
+    typeDate: 'Datum',
+    typeSelect: 'Auswahlliste',
+    typeRadio: 'Optionsfelder',
+    typeCheckbox: 'Kontrollkästchen',
+    typeSwitch: 'Schalter',
+    typeGroup: 'Wiederholbare Gruppe',
+    constraintMinLength: 'Mindestlänge',
+    constraintMaxLength: 'Höchstlänge',
+    constraintPattern: 'Muster',
+    patternInvalid: 'Muster muss ein gültiger regulärer Ausdruck sein',
+    constraintMin: 'Minimum',
+    constraintMax: 'Maximum',
+    constraintMinDate: 'Frühestes Datum',
+    constraintMaxDate: 'Spätestes Datum',
+    constraintMinItems: 'Mindestanzahl',
+    constraintMaxItems: 'Höchstanzahl',
+    itemLabel: 'Eintragsbezeichnung',
+    itemFields: 'Eintragsfelder',
+    options: 'Optionen',
+    optionTitle: 'Option {index}',
+    optionValue: 'Wert von Option {index}',
+    optionLabel: 'Beschriftung von Option {index}',
+    addOption: 'Option hinzufügen',
+    exportJson: 'JSON exportieren',
+    importJson: 'JSON importieren',
+    importFailed: '{file} ist keine gültige Formulardefinition',
+  },
+}
+
+/**
+ * Fills `{name}` placeholders; unknown placeholders are left as they are
+ */
+function interpolate(template: string, values: MessageValues) {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  )
+}
+
+/**
+ * Creates a translator for a locale
+ *
+ * @param locale - Locale to resolve messages in
+ * @param messages - Extra or overriding messages for the locale, e.g. the app's own strings
+ * @returns Translator resolving keys against the built-in and extra messages
+ */
+export function createTranslator(
+  locale: Locale,
+  messages: MessageCatalog = {}
+): Translate {
+  const catalog: MessageCatalog = { ...messageCatalogs[locale], ...messages }
+  const pluralRules = new Intl.PluralRules(locale)
+
+  return (key, values = {}) => {
+    const plural =
+      typeof values.count === 'number'
+        ? catalog[`${key}_${pluralRules.select(values.count)}`]
+        : undefined
+    return interpolate(plural ?? catalog[key] ?? key, values)
+  }
+}
+
+/**
+ * Creates a zod error map resolving messages through a translator
+ * Custom issues name their message key in `params.message` (with `params.values`);
+ * issues without a message of their own fall back to the generic `invalid` message
+ *
+ * @param translate - Translator for the current locale
+ * @returns Error map to pass to parse() or zodResolver
+ */
+export function createErrorMap(translate: Translate): z.core.$ZodErrorMap {
+  return (issue) =>
+    issue.code === 'custom' && typeof issue.params?.message === 'string'
+      ? translate(issue.params.message, issue.params.values)
+      : translate('invalid')
+}
+
+/**
+ * Translates the display text of a scalar field
+ */
+function localizeScalarField(
+  field: ScalarFieldDefinition,
+  translate: Translate
+): ScalarFieldDefinition {
+  return {
+    ...field,
+    label: translate(field.label),
+    placeholder: field.placeholder && translate(field.placeholder),
+    options: field.options?.map((option) => ({
+      ...option,
+      label: translate(option.label),
+    })),
+  }
+}
+
+/**
+ * Translates the display text of a field, including a group's item fields
+ */
+function localizeField(
+  field: FieldDefinition,
+  translate: Translate
+): FieldDefinition {
+  if (field.type !== 'group') {
+    return localizeScalarField(field, translate)
+  }
+
+  return {
+    ...field,
+    label: translate(field.label),
+    itemLabel: field.itemLabel && translate(field.itemLabel),
+    fields: field.fields.map((itemField) =>
+      localizeScalarField(itemField, translate)
+    ),
+  }
+}
+
+/**
+ * Translates the labels, placeholders, option labels and step titles of a form definition
+ * The definition's own text is used as the message key, so untranslated text is kept as is
+ * Only display text changes, so the result keeps the definition's type
+ *
+ * @param definition - Form definition to translate
+ * @param translate - Translator for the current locale
+ * @returns Form definition with translated display text
+ */
+export function localizeDefinition<D extends FormDefinition>(
+  definition: D,
+  translate: Translate
+): D
+export function localizeDefinition(
+  definition: FormDefinition,
+  translate: Translate
+): FormDefinition {
+  return {
+    fields: definition.fields.map((field) => localizeField(field, translate)),
+    steps: definition.steps?.map((step) => ({
+      ...step,
+      title: translate(step.title),
+      description: step.description && translate(step.description),
+    })),
+  }
+}
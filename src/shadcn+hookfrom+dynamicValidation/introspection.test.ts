@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest'
+import * as z from 'zod'
+import { createTranslator } from './i18n'
+import {
+  describeFieldSchema,
+  describeSchemaRules,
+  formatFieldRules,
+  type FieldRules,
+} from './introspection'
+import { createDynamicSchema } from './schemas'
+import type { FormDefinition } from './types'
+
+const translate = createTranslator('en')
+
+const definition: FormDefinition = {
+  fields: [
+    {
+      name: 'nickname',
+      type: 'text',
+      label: 'Nickname',
+      constraints: { minLength: 2, maxLength: 20, pattern: '^[a-z]+$' },
+    },
+    {
+      name: 'age',
+      type: 'number',
+      label: 'Age',
+      required: true,
+      constraints: { min: 18, max: 99 },
+    },
+    {
+      name: 'startDate',
+      type: 'date',
+      label: 'Start Date',
+      constraints: { minDate: '2024-01-01' },
+    },
+    {
+      name: 'role',
+      type: 'select',
+      label: 'Role',
+      required: true,
+      options: [
+        { value: 'dev', label: 'Developer' },
+        { value: 'design', label: 'Designer' },
+      ],
+    },
+    {
+      name: 'contactMethod',
+      type: 'radio',
+      label: 'Contact Method',
+      options: [
+        { value: 'email', label: 'Email' },
+        { value: 'phone', label: 'Phone' },
+      ],
+    },
+    { name: 'terms', type: 'checkbox', label: 'Terms', required: true },
+    {
+      name: 'contacts',
+      type: 'group',
+      label: 'Contacts',
+      minItems: 1,
+      maxItems: 3,
+      fields: [
+        { name: 'name', type: 'text', label: 'Name', required: true },
+        {
+          name: 'email',
+          type: 'text',
+          label: 'Email',
+          constraints: { maxLength: 50 },
+        },
+      ],
+    },
+  ],
+}
+
+const allEnabled = Object.fromEntries(
+  definition.fields.map((field) => [field.name, true])
+)
+
+describe('describeSchemaRules', () => {
+  const rules = describeSchemaRules(
+    createDynamicSchema(definition, allEnabled, {})
+  )
+
+  it('reads an optional string with a length range and pattern', () => {
+    expect(rules.nickname).toEqual({
+      kind: 'text',
+      required: false,
+      minLength: 2,
+      maxLength: 20,
+      pattern: '^[a-z]+$',
+    })
+  })
+
+  it('reads number and date ranges', () => {
+    expect(rules.age).toMatchObject({
+      kind: 'number',
+      required: true,
+      min: 18,
+      max: 99,
+    })
+    expect(rules.startDate).toMatchObject({
+      kind: 'date',
+      required: false,
+      min: '2024-01-01',
+      max: undefined,
+    })
+  })
+
+  it('reads enums with and without an empty choice', () => {
+    expect(rules.role).toEqual({
+      kind: 'choice',
+      required: true,
+      options: ['dev', 'design'],
+    })
+    expect(rules.contactMethod).toEqual({
+      kind: 'choice',
+      required: false,
+      options: ['email', 'phone'],
+    })
+  })
+
+  it('reads a group with its item limits and item rules', () => {
+    // Groups default to an empty list, so minItems is what makes one required
+    expect(rules.contacts).toMatchObject({
+      kind: 'list',
+      required: false,
+      minItems: 1,
+      maxItems: 3,
+      items: {
+        name: { kind: 'text', required: true, minLength: 1 },
+        email: { kind: 'text', required: false, maxLength: 50 },
+      },
+    })
+  })
+
+  it('reads switched off fields as unvalidated', () => {
+    const disabled = describeSchemaRules(
+      createDynamicSchema(definition, { ...allEnabled, age: false }, {})
+    )
+
+    expect(disabled.age).toEqual({ kind: 'unvalidated', required: false })
+  })
+
+  it('looks through the pipe an async validator adds', () => {
+    const withAsync = describeSchemaRules(
+      createDynamicSchema(
+        definition,
+        allEnabled,
+        {},
+        { asyncValidators: { nickname: async () => undefined } }
+      )
+    )
+
+    expect(withAsync.nickname).toEqual(rules.nickname)
+  })
+})
+
+describe('describeFieldSchema', () => {
+  it("treats an '' | string union as optional", () => {
+    expect(
+      describeFieldSchema(z.union([z.literal(''), z.string().min(3).max(9)]))
+    ).toEqual({
+      kind: 'text',
+      required: false,
+      minLength: 3,
+      maxLength: 9,
+      pattern: undefined,
+    })
+  })
+
+  it("treats an enum without '' as required", () => {
+    expect(describeFieldSchema(z.enum(['a', 'b']))).toMatchObject({
+      kind: 'choice',
+      required: true,
+    })
+    expect(describeFieldSchema(z.enum(['', 'a']))).toMatchObject({
+      kind: 'choice',
+      required: false,
+      options: ['a'],
+    })
+  })
+})
+
+describe('formatFieldRules', () => {
+  it.each<[string, FieldRules, string]>([
+    [
+      'text',
+      { kind: 'text', required: true, minLength: 1, maxLength: 50 },
+      'Required (1-50 chars)',
+    ],
+    [
+      'text with a pattern',
+      { kind: 'text', required: false, minLength: 2, pattern: '^[a-z]+$' },
+      'Optional (min 2 chars), pattern ^[a-z]+$',
+    ],
+    [
+      'number',
+      { kind: 'number', required: true, min: 18 },
+      'Required (18 to any)',
+    ],
+    [
+      'date',
+      { kind: 'date', required: false, min: '2024-01-01', max: '2024-12-31' },
+      'Optional (2024-01-01 to 2024-12-31)',
+    ],
+    [
+      'choice',
+      { kind: 'choice', required: true, options: ['a', 'b'] },
+      'Required (2 options)',
+    ],
+    ['checked box', { kind: 'boolean', required: true }, 'Must be checked'],
+    ['boolean', { kind: 'boolean', required: false }, 'Optional'],
+    [
+      'list with a range',
+      { kind: 'list', required: true, minItems: 1, maxItems: 3 },
+      '1-3 items',
+    ],
+    ['list', { kind: 'list', required: true, minItems: 1 }, 'At least 1 item'],
+    [
+      'unvalidated',
+      { kind: 'unvalidated', required: false },
+      'Optional (not validated)',
+    ],
+  ])('summarises %s rules', (_, rules, summary) => {
+    expect(formatFieldRules(rules, translate)).toBe(summary)
+  })
+})
@@ -0,0 +1,216 @@
+import * as z from 'zod'
+import type { Translate } from './i18n'
+
+/**
+ * Kind of value a field schema accepts
+ * `unvalidated` is used for fields whose schema accepts anything, e.g. switched off fields
+ */
+export type FieldRuleKind =
+  | 'text'
+  | 'number'
+  | 'date'
+  | 'choice'
+  | 'boolean'
+  | 'list'
+  | 'unvalidated'
+
+/**
+ * Validation rules read back from a field's zod schema
+ * Length limits apply to text, `min`/`max` to numbers and dates (YYYY-MM-DD),
+ * `minItems`/`maxItems` and `items` to lists
+ */
+export interface FieldRules {
+  kind: FieldRuleKind
+  required: boolean
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  min?: number | string
+  max?: number | string
+  options?: readonly string[]
+  minItems?: number
+  maxItems?: number
+  items?: SchemaRules
+}
+
+/**
+ * Rules of every field in an object schema, keyed by field name
+ */
+export type SchemaRules = Record<string, FieldRules>
+
+/**
+ * Reads a numeric or date bound collected by a schema's checks
+ */
+function getBound(schema: z.ZodType, bound: 'minimum' | 'maximum') {
+  const value: unknown = schema._zod.bag[bound]
+
+  if (value instanceof Date) {
+    return value.toISOString().slice(0, 10)
+  }
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+/**
+ * Reads the rules of a single field schema
+ * Optional, default and `'' |` wrappers make a field optional; pipes are described by the stage
+ * that holds the field's checks, skipping transforms and pass-through async checks
+ *
+ * @param schema - Field schema to describe
+ * @returns Rules enforced by the schema
+ */
+export function describeFieldSchema(schema: z.ZodType): FieldRules {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    return {
+      ...describeFieldSchema(schema.unwrap() as z.ZodType),
+      required: false,
+    }
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    const options = schema.options as readonly z.ZodType[]
+    const emptyAllowed = options.some(
+      (option) => option instanceof z.ZodLiteral && option.values.has('')
+    )
+    const [rules] = options
+      .filter(
+        (option) => !(option instanceof z.ZodLiteral && option.values.has(''))
+      )
+      .map(describeFieldSchema)
+
+    return rules
+      ? { ...rules, required: rules.required && !emptyAllowed }
+      : { kind: 'text', required: false }
+  }
+
+  if (schema instanceof z.ZodPipe) {
+    const output = schema.out as z.ZodType
+    return output instanceof z.ZodTransform || output instanceof z.ZodAny
+      ? describeFieldSchema(schema.in as z.ZodType)
+      : describeFieldSchema(output)
+  }
+
+  if (schema instanceof z.ZodString) {
+    const patterns = schema._zod.bag.patterns as Set<RegExp> | undefined
+    const [pattern] = patterns ?? []
+    return {
+      kind: 'text',
+      required: true,
+      minLength: schema.minLength ?? undefined,
+      maxLength: schema.maxLength ?? undefined,
+      pattern: pattern?.source,
+    }
+  }
+
+  if (schema instanceof z.ZodNumber || schema instanceof z.ZodDate) {
+    return {
+      kind: schema instanceof z.ZodNumber ? 'number' : 'date',
+      required: true,
+      min: getBound(schema, 'minimum'),
+      max: getBound(schema, 'maximum'),
+    }
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    const options = schema.options.map(String)
+    return {
+      kind: 'choice',
+      required: !options.includes(''),
+      options: options.filter((option) => option !== ''),
+    }
+  }
+
+  if (schema instanceof z.ZodLiteral || schema instanceof z.ZodBoolean) {
+    // A `true` literal is a box that has to be checked
+    return { kind: 'boolean', required: schema instanceof z.ZodLiteral }
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const element = schema.element as z.ZodType
+    return {
+      kind: 'list',
+      required: true,
+      minItems: getBound(schema, 'minimum') as number | undefined,
+      maxItems: getBound(schema, 'maximum') as number | undefined,
+      items:
+        element instanceof z.ZodObject
+          ? describeSchemaRules(element)
+          : undefined,
+    }
+  }
+
+  return { kind: 'unvalidated', required: false }
+}
+
+/**
+ * Reads the rules of every field in an object schema, such as one built by `createDynamicSchema`
+ * Refinements and the result transform around the object are looked through;
+ * fields left out of the schema (e.g. hidden by their rules) are missing from the result
+ *
+ * @param schema - Object schema, possibly wrapped in refinements or a transform
+ * @returns Rules of each field, keyed by field name
+ */
+export function describeSchemaRules(schema: z.ZodType): SchemaRules {
+  if (schema instanceof z.ZodPipe) {
+    return describeSchemaRules(schema.in as z.ZodType)
+  }
+  if (!(schema instanceof z.ZodObject)) {
+    return {}
+  }
+
+  return Object.fromEntries(
+    Object.entries(schema.shape as Record<string, z.ZodType>).map(
+      ([name, fieldSchema]) => [name, describeFieldSchema(fieldSchema)]
+    )
+  )
+}
+
+/**
+ * Summarises a field's rules as a single line of text, e.g. "Required (1-50 chars)"
+ *
+ * @param rules - Rules read from the field's schema
+ * @param translate - Translator for the current locale
+ * @returns Summary of the rules
+ */
+export function formatFieldRules(rules: FieldRules, translate: Translate) {
+  const status = translate(rules.required ? 'ruleRequired' : 'ruleOptional')
+
+  switch (rules.kind) {
+    case 'unvalidated':
+      return translate('ruleNotValidated')
+    case 'list':
+      return rules.maxItems !== undefined
+        ? translate('ruleItemRange', {
+            min: rules.minItems ?? 0,
+            max: rules.maxItems,
+          })
+        : translate('ruleMinItems', { count: rules.minItems ?? 0 })
+    case 'boolean':
+      return rules.required ? translate('ruleChecked') : status
+    case 'choice':
+      return translate('ruleOptions', {
+        status,
+        count: rules.options?.length ?? 0,
+      })
+    case 'number':
+    case 'date':
+      return rules.min !== undefined || rules.max !== undefined
+        ? translate('ruleValueRange', {
+            status,
+            min: rules.min ?? translate('ruleAny'),
+            max: rules.max ?? translate('ruleAny'),
+          })
+        : status
+  }
+
+  const min = rules.minLength ?? 0
+  const length =
+    rules.maxLength !== undefined
+      ? translate('ruleLengthRange', { status, min, max: rules.maxLength })
+      : min > 0
+      ? translate('ruleMinLength', { status, min })
+      : status
+
+  return rules.pattern !== undefined
+    ? translate('rulePattern', { rules: length, pattern: rules.pattern })
+    : length
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createDynamicSchema,
+  createFieldConfiguration,
+  isValidFormData,
+  validateFormData,
+} from './schemas'
+import { demoFormDefinition } from './formDefinition'
+import { mustNotRepeat } from './validators'
+import type {
+  DynamicFormValues,
+  FieldConfiguration,
+  FormDefinition,
+} from './types'
+
+const allEnabled = createFieldConfiguration(demoFormDefinition)
+
+const allDisabled: FieldConfiguration = Object.fromEntries(
+  Object.keys(allEnabled).map((name) => [name, false])
+)
+
+const validValues: DynamicFormValues = {
+  name: 'Ada Lovelace',
+  description: 'Writes the first programs',
+  age: '36',
+  company: '',
+  role: '',
+  contacts: [{ name: 'Charles', email: 'charles@example.com' }],
+  contactMethod: 'email',
+  newsletter: false,
+  terms: true,
+}
+
+/**
+ * Names of the fields with an issue, in the order reported
+ */
+function getIssuePaths(
+  values: DynamicFormValues,
+  config: FieldConfiguration = allEnabled
+) {
+  const result = validateFormData(values, demoFormDefinition, config)
+  return result.success
+    ? []
+    : result.error.issues.map((issue) => issue.path.join('.'))
+}
+
+describe('createDynamicSchema', () => {
+  it('accepts complete values and coerces numbers', () => {
+    const schema = createDynamicSchema(
+      demoFormDefinition,
+      allEnabled,
+      validValues
+    )
+
+    expect(schema.parse(validValues)).toEqual({
+      name: 'Ada Lovelace',
+      description: 'Writes the first programs',
+      age: 36,
+      company: '',
+      role: '',
+      contacts: [{ name: 'Charles', email: 'charles@example.com' }],
+      contactMethod: 'email',
+      newsletter: false,
+      terms: true,
+    })
+  })
+
+  it('requires every required field when all fields are enabled', () => {
+    expect(getIssuePaths({ contacts: [] })).toEqual(
+      expect.arrayContaining([
+        'name',
+        'description',
+        'age',
+        'contacts',
+        'contactMethod',
+        'terms',
+      ])
+    )
+  })
+
+  it('accepts anything and returns empty values when all fields are disabled', () => {
+    const values = { name: '', age: 'not a number', terms: false }
+    const result = validateFormData(values, demoFormDefinition, allDisabled)
+
+    expect(result.success).toBe(true)
+    expect(result.data).toMatchObject({
+      name: '',
+      description: '',
+      contacts: [],
+      newsletter: false,
+      terms: false,
+    })
+    expect(result.data).not.toHaveProperty('age')
+  })
+
+  it.each(['name', 'description', 'age', 'contactMethod', 'terms'])(
+    'stops validating %s once it is disabled',
+    (name) => {
+      const values = { ...validValues, [name]: '' }
+
+      expect(getIssuePaths(values)).toContain(name)
+      expect(getIssuePaths(values, { ...allEnabled, [name]: false })).toEqual(
+        []
+      )
+    }
+  )
+
+  it('validates only the enabled fields of a partial configuration', () => {
+    const config = { ...allDisabled, name: true, age: true }
+
+    expect(getIssuePaths({ age: '12' }, config)).toEqual(['name', 'age'])
+    expect(getIssuePaths({ name: 'Ada', age: '40' }, config)).toEqual([])
+  })
+
+  it('leaves hidden fields out of the schema and the result', () => {
+    const withoutCompany = validateFormData(
+      { ...validValues, jobTitle: 'Engineer' },
+      demoFormDefinition,
+      allEnabled
+    )
+    expect(withoutCompany.data).not.toHaveProperty('jobTitle')
+
+    expect(
+      getIssuePaths({ ...validValues, company: 'Analytical Ltd' })
+    ).toEqual(['jobTitle'])
+    expect(
+      getIssuePaths({ ...validValues, company: 'Self-employed', jobTitle: '' })
+    ).toEqual([])
+  })
+
+  it('checks group items and the item count', () => {
+    expect(
+      getIssuePaths({
+        ...validValues,
+        contacts: [{ name: '', email: 'not an email' }],
+      })
+    ).toEqual(['contacts.0.name', 'contacts.0.email'])
+
+    const contact = { name: 'Charles', email: 'charles@example.com' }
+    expect(
+      getIssuePaths({
+        ...validValues,
+        contacts: [contact, contact, contact, contact],
+      })
+    ).toEqual(['contacts'])
+  })
+})
+
+describe('createDynamicSchema with a pattern that does not compile', () => {
+  it('rejects values instead of throwing', () => {
+    const definition = {
+      fields: [
+        {
+          name: 'code',
+          type: 'text',
+          label: 'Code',
+          constraints: { pattern: '[' },
+        },
+      ],
+    } satisfies FormDefinition
+    const result = validateFormData({ code: 'abc' }, definition, {})
+
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      'Code has an invalid format',
+    ])
+  })
+})
+
+describe('validateFormData', () => {
+  it('uses the field messages and constraints', () => {
+    const result = validateFormData(
+      { ...validValues, age: '12', terms: false },
+      demoFormDefinition,
+      allEnabled
+    )
+
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      'You must be at least 18',
+      'You must accept the terms',
+    ])
+  })
+
+  it('runs cross-field refinements', () => {
+    const options = {
+      refinements: [
+        mustNotRepeat('description', 'name', 'Description must not repeat'),
+      ],
+    }
+    const result = validateFormData(
+      { ...validValues, description: 'Ada Lovelace' },
+      demoFormDefinition,
+      allEnabled,
+      options
+    )
+
+    expect(result.error?.issues).toEqual([
+      expect.objectContaining({
+        path: ['description'],
+        message: 'Description must not repeat',
+      }),
+    ])
+  })
+
+  it('resolves messages in the requested locale', () => {
+    const result = validateFormData(
+      { ...validValues, name: '' },
+      demoFormDefinition,
+      allEnabled,
+      { locale: 'de' }
+    )
+
+    expect(result.error?.issues[0].message).toBe('Name ist erforderlich')
+  })
+})
+
+describe('isValidFormData', () => {
+  it('checks values against the configuration', () => {
+    expect(isValidFormData(validValues, demoFormDefinition, allEnabled)).toBe(
+      true
+    )
+    expect(
+      isValidFormData(
+        { ...validValues, name: '' },
+        demoFormDefinition,
+        allEnabled
+      )
+    ).toBe(false)
+    expect(
+      isValidFormData({ ...validValues, name: '' }, demoFormDefinition, {
+        ...allEnabled,
+        name: false,
+      })
+    ).toBe(true)
+  })
+})
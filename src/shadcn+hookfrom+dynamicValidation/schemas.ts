@@ -1,79 +1,845 @@
 import * as z from 'zod'
-import type { FieldConfiguration, DynamicFormData } from './types'
+import { zodResolver } from '@hookform/resolvers/zod'
+import type { Resolver } from 'react-hook-form'
+import { isFieldRequired, isFieldVisible } from './conditions'
+import {
+  createErrorMap,
+  createTranslator,
+  defaultLocale,
+  type MessageKey,
+  type MessageValues,
+  type Translate,
+} from './i18n'
+import type { AsyncFieldValidator, DynamicSchemaOptions } from './validators'
+import type {
+  FieldConfiguration,
+  FieldDefinition,
+  FieldType,
+  FormDefinition,
+  FormStep,
+  GroupFieldDefinition,
+  ScalarFieldDefinition,
+  DynamicFieldValue,
+  DynamicFormData,
+  DynamicFormValues,
+  DynamicInputValue,
+  DynamicScalarValue,
+} from './types'
 
 /**
- * Schema configurations for different validation scenarios
+ * Resolves a validation message: the field's own override when set, otherwise the built-in message
+ * Either is translated, with the field label and the given values interpolated
+ */
+function resolveMessage(
+  translate: Translate,
+  label: string,
+  override: string | undefined,
+  key: MessageKey,
+  values: MessageValues = {}
+) {
+  return translate(override ?? key, { label, ...values })
+}
+
+/**
+ * Compiles a constraint pattern
+ *
+ * @param pattern - Regular expression source, e.g. typed into the form builder
+ * @returns The regular expression, or undefined when the pattern doesn't compile
+ */
+export function compilePattern(pattern: string) {
+  try {
+    return new RegExp(pattern)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Builds a string schema from a field's constraints
+ * Optional fields still apply their constraints, but accept an empty value
+ */
+function createStringSchema(
+  field: ScalarFieldDefinition,
+  required: boolean,
+  translate: Translate
+) {
+  const { constraints = {}, messages = {}, label } = field
+  const requiredMessage = resolveMessage(
+    translate,
+    label,
+    messages.required,
+    'required'
+  )
+  let schema = z.string({ error: requiredMessage })
+
+  if (required) {
+    schema = schema.min(1, requiredMessage)
+  }
+  if (constraints.minLength !== undefined) {
+    schema = schema.min(
+      constraints.minLength,
+      resolveMessage(translate, label, messages.minLength, 'minLength', {
+        minLength: constraints.minLength,
+      })
+    )
+  }
+  if (constraints.maxLength !== undefined) {
+    schema = schema.max(
+      constraints.maxLength,
+      resolveMessage(translate, label, messages.maxLength, 'maxLength', {
+        maxLength: constraints.maxLength,
+      })
+    )
+  }
+  if (constraints.pattern !== undefined) {
+    const pattern = compilePattern(constraints.pattern)
+    const patternMessage = resolveMessage(
+      translate,
+      label,
+      messages.pattern,
+      'pattern'
+    )
+    // A pattern that doesn't compile can't be met, so every value is rejected
+    schema = pattern
+      ? schema.regex(pattern, patternMessage)
+      : schema.refine(() => false, patternMessage)
+  }
+
+  return required ? schema : schema.or(z.literal('')).optional().default('')
+}
+
+/**
+ * Treats empty input as a missing value for fields whose values are coerced
+ */
+const emptyInputAsUndefined = z
+  .string()
+  .optional()
+  .transform((value) => (value === '' ? undefined : value))
+
+/**
+ * Wraps a coercing schema so empty input is reported as missing when required,
+ * and left out of the result when optional
+ */
+function withEmptyInput<T extends z.ZodType<unknown, string>>(
+  schema: T,
+  required: boolean,
+  requiredMessage: string
+) {
+  return required
+    ? emptyInputAsUndefined
+        .refine((value) => value !== undefined, requiredMessage)
+        .pipe(schema)
+    : emptyInputAsUndefined.pipe(schema.optional())
+}
+
+/**
+ * Builds a number schema, coercing the input string
+ */
+function createNumberSchema(
+  field: ScalarFieldDefinition,
+  required: boolean,
+  translate: Translate
+) {
+  const { constraints = {}, messages = {}, label } = field
+  let schema = z.coerce.number<string>({
+    error: resolveMessage(translate, label, messages.invalid, 'invalidNumber'),
+  })
+
+  if (constraints.min !== undefined) {
+    schema = schema.min(
+      constraints.min,
+      resolveMessage(translate, label, messages.min, 'min', {
+        min: constraints.min,
+      })
+    )
+  }
+  if (constraints.max !== undefined) {
+    schema = schema.max(
+      constraints.max,
+      resolveMessage(translate, label, messages.max, 'max', {
+        max: constraints.max,
+      })
+    )
+  }
+
+  return withEmptyInput(
+    schema,
+    required,
+    resolveMessage(translate, label, messages.required, 'required')
+  )
+}
+
+/**
+ * Builds a date schema, coercing the input's YYYY-MM-DD string
+ */
+function createDateSchema(
+  field: ScalarFieldDefinition,
+  required: boolean,
+  translate: Translate
+) {
+  const { constraints = {}, messages = {}, label } = field
+  let schema = z.coerce.date<string>({
+    error: resolveMessage(translate, label, messages.invalid, 'invalidDate'),
+  })
+
+  if (constraints.minDate !== undefined) {
+    schema = schema.min(
+      new Date(constraints.minDate),
+      resolveMessage(translate, label, messages.min, 'minDate', {
+        minDate: constraints.minDate,
+      })
+    )
+  }
+  if (constraints.maxDate !== undefined) {
+    schema = schema.max(
+      new Date(constraints.maxDate),
+      resolveMessage(translate, label, messages.max, 'maxDate', {
+        maxDate: constraints.maxDate,
+      })
+    )
+  }
+
+  return withEmptyInput(
+    schema,
+    required,
+    resolveMessage(translate, label, messages.required, 'required')
+  )
+}
+
+/**
+ * Builds a schema accepting one of a select or radio field's option values
+ */
+function createChoiceSchema(
+  field: ScalarFieldDefinition,
+  required: boolean,
+  translate: Translate
+) {
+  const { options = [], messages = {}, label } = field
+  const requiredMessage = resolveMessage(
+    translate,
+    label,
+    messages.required,
+    'required'
+  )
+
+  if (options.length === 0) {
+    return createStringSchema(field, required, translate)
+  }
+
+  // Optional fields also accept the empty "nothing selected" value
+  const schema = z.enum(
+    [...(required ? [] : ['']), ...options.map((option) => option.value)],
+    {
+      error: resolveMessage(
+        translate,
+        label,
+        messages.invalid,
+        'invalidOption'
+      ),
+    }
+  )
+
+  return required
+    ? z.string({ error: requiredMessage }).min(1, requiredMessage).pipe(schema)
+    : schema.optional().default('')
+}
+
+/**
+ * Builds a checkbox or switch schema
+ * Required means the box has to be checked, e.g. to accept terms
+ */
+function createBooleanSchema(
+  field: ScalarFieldDefinition,
+  required: boolean,
+  translate: Translate
+) {
+  const { messages = {}, label } = field
+
+  return required
+    ? z.literal(true, {
+        error: resolveMessage(
+          translate,
+          label,
+          messages.required,
+          'mustBeChecked'
+        ),
+      })
+    : z.boolean().optional().default(false)
+}
+
+/**
+ * Schema factories for each field type
+ * Messages are resolved through the translator for the current locale
  */
 export const schemaConfigs = {
-  name: {
-    required: z
-      .string()
-      .min(1, 'Name is required')
-      .max(50, 'Name must be less than 50 characters'),
-    optional: z.string().optional().default(''),
-  },
-
-  description: {
-    required: z
-      .string()
-      .min(6, 'Description must be at least 6 characters')
-      .max(500, 'Description must be less than 500 characters'),
-    optional: z.string().optional().default(''),
-  },
-} as const
-
-/**
- * Creates a dynamic Zod schema based on field configuration
- * Always returns DynamicFormData type for consistency
+  text: createStringSchema,
+  textarea: createStringSchema,
+  number: createNumberSchema,
+  date: createDateSchema,
+  select: createChoiceSchema,
+  radio: createChoiceSchema,
+  checkbox: createBooleanSchema,
+  switch: createBooleanSchema,
+} satisfies Record<
+  FieldType,
+  (
+    field: ScalarFieldDefinition,
+    required: boolean,
+    translate: Translate
+  ) => z.ZodType<DynamicScalarValue | undefined, DynamicInputValue | undefined>
+>
+
+/**
+ * Builds the schema for a repeatable group
+ * Each item is validated with its fields' own schemas; the item count is checked against minItems/maxItems
+ */
+function createGroupSchema(group: GroupFieldDefinition, translate: Translate) {
+  const { minItems, maxItems, messages = {}, label } = group
+  const itemSchema = z.object(
+    Object.fromEntries(
+      group.fields.map((field) => [
+        field.name,
+        schemaConfigs[field.type](field, field.required ?? false, translate),
+      ])
+    )
+  )
+  let schema = z.array(itemSchema)
+
+  if (minItems !== undefined) {
+    schema = schema.min(
+      minItems,
+      resolveMessage(translate, label, messages.minItems, 'minItems', {
+        count: minItems,
+      })
+    )
+  }
+  if (maxItems !== undefined) {
+    schema = schema.max(
+      maxItems,
+      resolveMessage(translate, label, messages.maxItems, 'maxItems', {
+        count: maxItems,
+      })
+    )
+  }
+
+  return schema.optional().default([])
+}
+
+/**
+ * Value a field takes in the result when it is empty or switched off
+ * Number and date fields are left out instead
+ */
+function getEmptyValue(field: FieldDefinition): DynamicFieldValue | undefined {
+  switch (field.type) {
+    case 'group':
+      return []
+    case 'checkbox':
+    case 'switch':
+      return false
+    case 'number':
+    case 'date':
+      return undefined
+    default:
+      return ''
+  }
+}
+
+/**
+ * Schema used for fields that are switched off in the field configuration
+ * Their input is not validated and they always hold their empty value
+ */
+function createDisabledFieldSchema(field: FieldDefinition) {
+  return z.any().transform(() => getEmptyValue(field))
+}
+
+/**
+ * Runs an async validator once the field's own checks have passed
+ * Empty values are left to the required check; the returned message is a message key
+ * resolved by the error map, with the field label and value available for interpolation
+ */
+function withAsyncValidator(
+  schema: z.ZodType<
+    DynamicScalarValue | undefined,
+    DynamicInputValue | undefined
+  >,
+  validator: AsyncFieldValidator,
+  label: string
+) {
+  return schema.pipe(
+    z.any().superRefine(async (value, ctx) => {
+      if (value === undefined || value === '') {
+        return
+      }
+
+      const input = value instanceof Date ? value.toISOString() : String(value)
+      const message = await validator(input)
+      if (message) {
+        ctx.addIssue({
+          code: 'custom',
+          params: { message, values: { label, value: input } },
+        })
+      }
+    })
+  )
+}
+
+/**
+ * Checks whether a field is switched on in the field configuration
+ * Fields missing from the configuration are treated as enabled
+ */
+export function isFieldEnabled(
+  config: FieldConfiguration,
+  field: FieldDefinition
+) {
+  return config[field.name] ?? true
+}
+
+/**
+ * Builds the default field configuration for a form definition, with every field enabled
+ */
+export function createFieldConfiguration(
+  definition: FormDefinition
+): FieldConfiguration {
+  return Object.fromEntries(
+    definition.fields.map((field) => [field.name, true])
+  )
+}
+
+/**
+ * Builds the default input value for a single scalar field
+ * Checkboxes and switches start unchecked, everything else empty
+ */
+function getScalarDefaultValue(
+  field: ScalarFieldDefinition
+): DynamicInputValue {
+  return (
+    field.defaultValue ??
+    (field.type === 'checkbox' || field.type === 'switch' ? false : '')
+  )
+}
+
+/**
+ * Builds an empty item for a repeatable group
+ */
+export function createGroupItem(
+  group: GroupFieldDefinition
+): Record<string, DynamicInputValue> {
+  return Object.fromEntries(
+    group.fields.map((field) => [field.name, getScalarDefaultValue(field)])
+  )
+}
+
+/**
+ * Builds the default input value for a single field
+ * Groups start with as many empty items as they require
+ */
+function getDefaultValue(field: FieldDefinition): DynamicFormValues[string] {
+  if (field.type === 'group') {
+    return Array.from({ length: field.minItems ?? 0 }, () =>
+      createGroupItem(field)
+    )
+  }
+  return getScalarDefaultValue(field)
+}
+
+/**
+ * Builds the default form values for a form definition
+ */
+export function getDefaultValues<D extends FormDefinition>(
+  definition: D
+): DynamicFormValues<D>
+export function getDefaultValues(
+  definition: FormDefinition
+): DynamicFormValues {
+  return Object.fromEntries(
+    definition.fields.map((field) => [field.name, getDefaultValue(field)])
+  )
+}
+
+/**
+ * Builds the schema for a single visible field
+ */
+function createFieldSchema(
+  field: FieldDefinition,
+  config: FieldConfiguration,
+  values: DynamicFormValues,
+  asyncValidators: NonNullable<DynamicSchemaOptions['asyncValidators']>,
+  translate: Translate
+): z.ZodType<DynamicFieldValue | undefined, DynamicFormValues[string]> {
+  if (!isFieldEnabled(config, field)) {
+    return createDisabledFieldSchema(field)
+  }
+  if (field.type === 'group') {
+    return createGroupSchema(field, translate)
+  }
+
+  const schema = schemaConfigs[field.type](
+    field,
+    isFieldRequired(field, values),
+    translate
+  )
+  const asyncValidator = asyncValidators[field.name]
+
+  return asyncValidator
+    ? withAsyncValidator(schema, asyncValidator, field.label)
+    : schema
+}
+
+/**
+ * Creates a dynamic Zod schema based on a form definition and field configuration
+ * Its input and output types are the definition's DynamicFormValues and DynamicFormData,
+ * so they carry over to useForm through the resolver; fields a configuration literal
+ * switches off are typed as their empty value
+ * Fields hidden by their `visibleWhen` rules are left out of the schema and the result
  *
+ * @param definition - Form definition describing the available fields
  * @param config - Configuration object specifying which fields should be validated
+ * @param values - Current form values the field rules are evaluated against
+ * @param options - Cross-field refinements, async validators and the locale messages are resolved in
  * @returns Zod schema for the specified configuration
  */
-export function createDynamicSchema(config: FieldConfiguration) {
-  const nameSchema = config.name
-    ? schemaConfigs.name.required
-    : schemaConfigs.name.optional
-  const descriptionSchema = config.description
-    ? schemaConfigs.description.required
-    : schemaConfigs.description.optional
+export function createDynamicSchema<
+  const D extends FormDefinition,
+  const C extends FieldConfiguration
+>(
+  definition: D,
+  config: C,
+  values?: DynamicFormValues<D>,
+  options?: DynamicSchemaOptions
+): z.ZodType<DynamicFormData<D, C>, DynamicFormValues<D>>
+export function createDynamicSchema(
+  definition: FormDefinition,
+  config: FieldConfiguration,
+  values: DynamicFormValues = {},
+  options: DynamicSchemaOptions = {}
+) {
+  const { refinements = [], asyncValidators = {} } = options
+  const translate = getTranslator(options)
+  const visibleFields = definition.fields.filter((field) =>
+    isFieldVisible(field, values)
+  )
+  const shape = Object.fromEntries(
+    visibleFields.map((field) => [
+      field.name,
+      createFieldSchema(field, config, values, asyncValidators, translate),
+    ])
+  )
 
   return z
-    .object({
-      name: nameSchema,
-      description: descriptionSchema,
+    .object(shape)
+    .superRefine((data, ctx) => {
+      refinements.forEach((refinement) =>
+        refinement.refine(
+          data as DynamicFormData,
+          ctx as z.RefinementCtx<DynamicFormData>
+        )
+      )
     })
-    .transform((data) => ({
-      name: data.name || '',
-      description: data.description || '',
-    })) satisfies z.ZodType<DynamicFormData>
+    .transform(
+      (data): DynamicFormData =>
+        Object.fromEntries(
+          visibleFields.flatMap((field) => {
+            const value = data[field.name]
+            return value === undefined ? [] : [[field.name, value] as const]
+          })
+        )
+    ) satisfies z.ZodType<DynamicFormData>
+}
+
+/**
+ * Creates the translator for the locale and messages in the schema options
+ */
+function getTranslator(options: DynamicSchemaOptions) {
+  return createTranslator(options.locale ?? defaultLocale, options.messages)
 }
 
 /**
  * Validates data against a specific field configuration
+ * Async validators are not supported here and are ignored; use validateFormDataAsync for those
  *
  * @param data - Data to validate
+ * @param definition - Form definition describing the available fields
  * @param config - Field configuration to validate against
+ * @param options - Cross-field refinements and the locale messages are resolved in
  * @returns Validation result
  */
-export function validateFormData(
-  data: Partial<DynamicFormData>,
-  config: FieldConfiguration
+export function validateFormData<
+  const D extends FormDefinition,
+  const C extends FieldConfiguration
+>(
+  data: DynamicFormValues<D>,
+  definition: D,
+  config: C,
+  options: DynamicSchemaOptions = {}
 ) {
-  const schema = createDynamicSchema(config)
-  return schema.safeParse(data)
+  const syncOptions = { ...options, asyncValidators: {} }
+  const schema = createDynamicSchema(definition, config, data, syncOptions)
+  return schema.safeParse(data, {
+    error: createErrorMap(getTranslator(options)),
+  })
+}
+
+/**
+ * Validates data against a specific field configuration, including async validators
+ *
+ * @param data - Data to validate
+ * @param definition - Form definition describing the available fields
+ * @param config - Field configuration to validate against
+ * @param options - Cross-field refinements and async validators to apply
+ * @returns Promise of the validation result
+ */
+export function validateFormDataAsync<
+  const D extends FormDefinition,
+  const C extends FieldConfiguration
+>(
+  data: DynamicFormValues<D>,
+  definition: D,
+  config: C,
+  options: DynamicSchemaOptions = {}
+) {
+  const schema = createDynamicSchema(definition, config, data, options)
+  return schema.safeParseAsync(data, {
+    error: createErrorMap(getTranslator(options)),
+  })
+}
+
+/**
+ * Creates a react-hook-form resolver that rebuilds the dynamic schema on every validation
+ * so field rules are always evaluated against the values being validated
+ *
+ * @param definition - Form definition describing the available fields
+ * @param config - Field configuration to validate against
+ * @param schemaOptions - Cross-field refinements, async validators and the locale messages are resolved in
+ * @returns Resolver for useForm
+ */
+export function createDynamicResolver<
+  const D extends FormDefinition,
+  const C extends FieldConfiguration
+>(
+  definition: D,
+  config: C,
+  schemaOptions: DynamicSchemaOptions = {}
+): Resolver<DynamicFormValues<D>, unknown, DynamicFormData<D, C>> {
+  return (values, context, options) =>
+    zodResolver(
+      createDynamicSchema(definition, config, values, schemaOptions),
+      { error: createErrorMap(getTranslator(schemaOptions)) }
+    )(values, context, options)
 }
 
 /**
- * Type guard to check if data conforms to a specific configuration
+ * Narrows a form definition to the fields of a single wizard step
  *
- * @param data - Data to check
+ * @param definition - Form definition describing the available fields
+ * @param step - Step whose fields should be kept
+ * @returns Form definition holding only the step's fields
+ */
+export function getStepDefinition(
+  definition: FormDefinition,
+  step: FormStep
+): FormDefinition {
+  return {
+    fields: definition.fields.filter((field) =>
+      step.fields.includes(field.name)
+    ),
+  }
+}
+
+/**
+ * Narrows schema options to the refinements and async validators
+ * that only read the given fields; the locale settings are kept
+ *
+ * @param options - Cross-field refinements and async validators
+ * @param fieldNames - Names of the fields being validated
+ * @returns Schema options for the subset of fields
+ */
+export function getStepSchemaOptions(
+  options: DynamicSchemaOptions,
+  fieldNames: readonly string[]
+): DynamicSchemaOptions {
+  return {
+    ...options,
+    refinements: (options.refinements ?? []).filter((refinement) =>
+      refinement.fields.every((field) => fieldNames.includes(field))
+    ),
+    asyncValidators: Object.fromEntries(
+      Object.entries(options.asyncValidators ?? {}).filter(([field]) =>
+        fieldNames.includes(field)
+      )
+    ),
+  }
+}
+
+/**
+ * Checks whether form values pass a specific configuration
+ * Async validators are not run; use validateFormDataAsync for those
+ *
+ * @param data - Form values to check
+ * @param definition - Form definition describing the available fields
  * @param config - Field configuration
- * @returns Boolean indicating if data is valid
- */
-export function isValidFormData(
-  data: unknown,
-  config: FieldConfiguration
-): data is DynamicFormData {
-  const result = validateFormData(data as Partial<DynamicFormData>, config)
-  return result.success
+ * @returns Boolean indicating if the values are valid
+ */
+export function isValidFormData<
+  const D extends FormDefinition,
+  const C extends FieldConfiguration
+>(data: DynamicFormValues<D>, definition: D, config: C) {
+  return validateFormData(data, definition, config).success
+}
+
+/**
+ * Schema describing a serialized field condition
+ */
+const fieldConditionSchema = z.object({
+  field: z.string().min(1),
+  operator: z.enum([
+    'equals',
+    'notEquals',
+    'startsWith',
+    'contains',
+    'isEmpty',
+    'isNotEmpty',
+  ]),
+  value: z.string().optional(),
+})
+
+/**
+ * Checks that no two fields in a list share a name, as names key the form values
+ */
+function hasUniqueNames(fields: readonly { name: string }[]) {
+  return new Set(fields.map((field) => field.name)).size === fields.length
+}
+
+/**
+ * Schema describing the serialized form definition format itself
+ */
+const scalarFieldSchema = z.object({
+  name: z.string().min(1),
+  type: z.enum([
+    'text',
+    'textarea',
+    'number',
+    'date',
+    'select',
+    'radio',
+    'checkbox',
+    'switch',
+  ]),
+  label: z.string(),
+  placeholder: z.string().optional(),
+  defaultValue: z.union([z.string(), z.boolean()]).optional(),
+  required: z.boolean().optional(),
+  options: z
+    .array(z.object({ value: z.string().min(1), label: z.string() }))
+    .optional(),
+  constraints: z
+    .object({
+      minLength: z.number().int().nonnegative().optional(),
+      maxLength: z.number().int().nonnegative().optional(),
+      pattern: z
+        .string()
+        .refine(
+          (pattern) => compilePattern(pattern) !== undefined,
+          'Pattern must be a valid regular expression'
+        )
+        .optional(),
+      min: z.number().optional(),
+      max: z.number().optional(),
+      minDate: z.iso.date().optional(),
+      maxDate: z.iso.date().optional(),
+    })
+    .optional(),
+  messages: z
+    .object({
+      required: z.string().optional(),
+      minLength: z.string().optional(),
+      maxLength: z.string().optional(),
+      pattern: z.string().optional(),
+      min: z.string().optional(),
+      max: z.string().optional(),
+      invalid: z.string().optional(),
+    })
+    .optional(),
+  visibleWhen: z.array(fieldConditionSchema).optional(),
+  requiredWhen: z.array(fieldConditionSchema).optional(),
+})
+
+const groupFieldSchema = z.object({
+  name: z.string().min(1),
+  type: z.literal('group'),
+  label: z.string(),
+  itemLabel: z.string().optional(),
+  fields: z
+    .array(scalarFieldSchema)
+    .refine(hasUniqueNames, 'Field names must be unique'),
+  minItems: z.number().int().nonnegative().optional(),
+  maxItems: z.number().int().nonnegative().optional(),
+  messages: z
+    .object({
+      minItems: z.string().optional(),
+      maxItems: z.string().optional(),
+    })
+    .optional(),
+  visibleWhen: z.array(fieldConditionSchema).optional(),
+})
+
+const formStepSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  description: z.string().optional(),
+  fields: z.array(z.string()),
+})
+
+export const formDefinitionSchema = z
+  .object({
+    fields: z
+      .array(z.union([scalarFieldSchema, groupFieldSchema]))
+      .refine(hasUniqueNames, 'Field names must be unique'),
+    steps: z.array(formStepSchema).optional(),
+  })
+  .superRefine(({ fields, steps = [] }, ctx) => {
+    // Conditions and steps refer to top-level fields by name
+    const names = new Set(fields.map((field) => field.name))
+    const reportUnknown = (name: string, path: (string | number)[]) => {
+      if (!names.has(name)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: `Unknown field "${name}"`,
+          path,
+        })
+      }
+    }
+
+    fields.forEach((field, fieldIndex) => {
+      const conditions = {
+        visibleWhen: field.visibleWhen ?? [],
+        requiredWhen: field.type === 'group' ? [] : field.requiredWhen ?? [],
+      }
+      Object.entries(conditions).forEach(([rule, list]) =>
+        list.forEach((condition, conditionIndex) =>
+          reportUnknown(condition.field, [
+            'fields',
+            fieldIndex,
+            rule,
+            conditionIndex,
+            'field',
+          ])
+        )
+      )
+    })
+    steps.forEach((step, stepIndex) =>
+      step.fields.forEach((name, nameIndex) =>
+        reportUnknown(name, ['steps', stepIndex, 'fields', nameIndex])
+      )
+    )
+  }) satisfies z.ZodType<FormDefinition>
+
+/**
+ * Parses an untrusted (e.g. JSON) value into a form definition
+ *
+ * @param value - Value to parse
+ * @returns The form definition
+ * @throws ZodError when the value is not a valid form definition
+ */
+export function parseFormDefinition(value: unknown): FormDefinition {
+  return formDefinitionSchema.parse(value)
 }
@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createMockSubmissionAdapter,
+  isAbortError,
+  submitWithRetry,
+} from './submission'
+
+const data = { name: 'Ada' }
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('submitWithRetry', () => {
+  it('retries failed attempts with a doubling delay', async () => {
+    const adapter = createMockSubmissionAdapter({ latency: 100, failures: 2 })
+    const onAttempt = vi.fn()
+    const result = submitWithRetry(adapter, data, {
+      retries: 2,
+      retryDelay: 500,
+      onAttempt,
+    })
+
+    // First attempt fails after its latency, the second starts 500ms later
+    await vi.advanceTimersByTimeAsync(100 + 499)
+    expect(onAttempt.mock.calls).toEqual([[1]])
+    await vi.advanceTimersByTimeAsync(1)
+    expect(onAttempt).toHaveBeenLastCalledWith(2)
+
+    // The second attempt fails too, and the delay doubles
+    await vi.advanceTimersByTimeAsync(100 + 999)
+    expect(onAttempt).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(1)
+    expect(onAttempt).toHaveBeenLastCalledWith(3)
+
+    await vi.advanceTimersByTimeAsync(100)
+    await expect(result).resolves.toMatchObject({ status: 'success' })
+  })
+
+  it('rejects with the adapter error once retries run out', async () => {
+    const adapter = createMockSubmissionAdapter({ latency: 0, failures: 3 })
+    const onAttempt = vi.fn()
+    const result = expect(
+      submitWithRetry(adapter, data, { retries: 1, retryDelay: 10, onAttempt })
+    ).rejects.toThrow('Service temporarily unavailable')
+
+    await vi.runAllTimersAsync()
+    await result
+    expect(onAttempt).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops retrying when aborted during the delay', async () => {
+    const adapter = createMockSubmissionAdapter({ latency: 0, failures: 1 })
+    const controller = new AbortController()
+    const onAttempt = vi.fn()
+    const result = submitWithRetry(adapter, data, {
+      retryDelay: 500,
+      signal: controller.signal,
+      onAttempt,
+    }).catch((error: unknown) => error)
+
+    await vi.advanceTimersByTimeAsync(100)
+    controller.abort()
+
+    expect(isAbortError(await result)).toBe(true)
+    await vi.runAllTimersAsync()
+    expect(onAttempt).toHaveBeenCalledTimes(1)
+  })
+
+  it('returns invalid results without retrying', async () => {
+    const adapter = createMockSubmissionAdapter({
+      latency: 0,
+      validate: () => ({ name: 'Name is taken' }),
+    })
+    const onAttempt = vi.fn()
+    const result = submitWithRetry(adapter, data, { onAttempt })
+
+    await vi.runAllTimersAsync()
+    await expect(result).resolves.toEqual({
+      status: 'invalid',
+      fieldErrors: { name: 'Name is taken' },
+      message: 'The server rejected some of the values',
+    })
+    expect(onAttempt).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('createMockSubmissionAdapter', () => {
+  it('counts failures per adapter', async () => {
+    const options = { latency: 0, failures: 1 }
+    const submitOnce = (adapter = createMockSubmissionAdapter(options)) =>
+      adapter.submit(data, new AbortController().signal)
+
+    const first = createMockSubmissionAdapter(options)
+    const results = Promise.allSettled([
+      submitOnce(first),
+      submitOnce(first),
+      submitOnce(),
+    ])
+
+    await vi.runAllTimersAsync()
+    expect((await results).map((result) => result.status)).toEqual([
+      'rejected',
+      'fulfilled',
+      'rejected',
+    ])
+  })
+})
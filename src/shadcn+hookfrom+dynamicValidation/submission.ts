@@ -0,0 +1,166 @@
+import type { FieldPath, FieldValues, UseFormSetError } from 'react-hook-form'
+import type { DynamicFormData } from './types'
+
+/**
+ * Outcome of a submission the server received
+ * `invalid` carries server-side errors keyed by field path (e.g. `contacts.0.email`)
+ * Transport and server failures are rejected promises instead, and are retried
+ */
+export type SubmissionResult =
+  | { status: 'success'; id?: string }
+  | {
+      status: 'invalid'
+      fieldErrors: Record<string, string>
+      message?: string
+    }
+
+/**
+ * Pluggable backend the form is submitted to
+ * Implementations should stop work and reject when the signal is aborted
+ */
+export interface SubmissionAdapter {
+  submit: (
+    data: DynamicFormData,
+    signal: AbortSignal
+  ) => Promise<SubmissionResult>
+}
+
+/**
+ * Retry behaviour for a submission
+ * The delay doubles after every failed attempt
+ */
+export interface SubmitOptions {
+  retries?: number
+  retryDelay?: number
+  signal?: AbortSignal
+  onAttempt?: (attempt: number) => void
+}
+
+/**
+ * Checks whether an error comes from an aborted submission
+ */
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+/**
+ * Waits for a delay, rejecting early when the signal is aborted
+ */
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Submits data through an adapter, retrying failed attempts
+ * `invalid` results are returned straight away; only rejected attempts are retried
+ *
+ * @param adapter - Submission adapter
+ * @param data - Validated form data
+ * @param options - Retry and cancellation options
+ * @returns Promise of the submission result
+ * @throws The last attempt's error once retries run out, or an AbortError when cancelled
+ */
+export async function submitWithRetry(
+  adapter: SubmissionAdapter,
+  data: DynamicFormData,
+  options: SubmitOptions = {}
+): Promise<SubmissionResult> {
+  const { retries = 2, retryDelay = 500, signal, onAttempt } = options
+  const abortSignal = signal ?? new AbortController().signal
+
+  for (let attempt = 1; ; attempt++) {
+    abortSignal.throwIfAborted()
+    onAttempt?.(attempt)
+
+    try {
+      return await adapter.submit(data, abortSignal)
+    } catch (error) {
+      if (isAbortError(error) || attempt > retries) {
+        throw error
+      }
+      await delay(retryDelay * 2 ** (attempt - 1), abortSignal)
+    }
+  }
+}
+
+/**
+ * Maps server-side errors from an invalid submission back onto the form
+ * Field errors go to their fields; the overall message goes to `root.server`
+ *
+ * @param setError - The form's setError
+ * @param result - Invalid submission result
+ */
+export function applySubmissionErrors<TFieldValues extends FieldValues>(
+  setError: UseFormSetError<TFieldValues>,
+  result: Extract<SubmissionResult, { status: 'invalid' }>
+) {
+  Object.entries(result.fieldErrors).forEach(([name, message]) => {
+    // The server names fields by their path, which is only known at runtime
+    setError(name as FieldPath<TFieldValues>, { type: 'server', message })
+  })
+  if (result.message) {
+    setError('root.server', { type: 'server', message: result.message })
+  }
+}
+
+/**
+ * Options for the mock submission adapter
+ * `failures` is the number of attempts that fail before one goes through
+ * `validate` returns server-side field errors for the submitted data
+ */
+export interface MockSubmissionOptions {
+  latency?: number
+  failures?: number
+  validate?: (data: DynamicFormData) => Record<string, string>
+}
+
+/**
+ * Creates a submission adapter that simulates a backend, for demos and tests
+ * Each adapter counts its own failures, so create one per form or test
+ *
+ * @param options - Simulated latency, transient failures and server-side validation
+ * @returns Mock submission adapter
+ */
+export function createMockSubmissionAdapter(
+  options: MockSubmissionOptions = {}
+): SubmissionAdapter {
+  const { latency = 800, failures = 0, validate } = options
+  let remainingFailures = failures
+
+  return {
+    submit: async (data, signal) => {
+      await delay(latency, signal)
+
+      if (remainingFailures > 0) {
+        remainingFailures--
+        throw new Error('Service temporarily unavailable')
+      }
+
+      const fieldErrors = validate?.(data) ?? {}
+      if (Object.keys(fieldErrors).length > 0) {
+        return {
+          status: 'invalid',
+          fieldErrors,
+          message: 'The server rejected some of the values',
+        }
+      }
+
+      return { status: 'success', id: crypto.randomUUID() }
+    },
+  }
+}
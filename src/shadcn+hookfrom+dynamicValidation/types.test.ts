@@ -0,0 +1,124 @@
+import { describe, expectTypeOf, it } from 'vitest'
+import type { FieldPath, Resolver } from 'react-hook-form'
+import {
+  createDynamicResolver,
+  createDynamicSchema,
+  getDefaultValues,
+} from './schemas'
+import { DynamicFormWizard } from './DynamicFormWizard'
+import { demoFormDefinition } from './formDefinition'
+import type {
+  DynamicFieldValue,
+  DynamicFormData,
+  DynamicFormValues,
+  FieldConfiguration,
+  FieldName,
+} from './types'
+
+type DemoDefinition = typeof demoFormDefinition
+
+describe('DynamicFormValues', () => {
+  it('types the field names and input values of a const definition', () => {
+    expectTypeOf<FieldName<DemoDefinition>>().toEqualTypeOf<
+      | 'name'
+      | 'description'
+      | 'age'
+      | 'company'
+      | 'jobTitle'
+      | 'role'
+      | 'startDate'
+      | 'contacts'
+      | 'contactMethod'
+      | 'newsletter'
+      | 'terms'
+    >()
+    expectTypeOf(getDefaultValues(demoFormDefinition)).toEqualTypeOf<
+      DynamicFormValues<DemoDefinition>
+    >()
+    expectTypeOf<DynamicFormValues<DemoDefinition>['age']>().toEqualTypeOf<
+      string | undefined
+    >()
+    expectTypeOf<DynamicFormValues<DemoDefinition>['terms']>().toEqualTypeOf<
+      boolean | undefined
+    >()
+    expectTypeOf<'contacts.0.email'>().toExtend<
+      FieldPath<DynamicFormValues<DemoDefinition>>
+    >()
+    expectTypeOf<'contacts.0.phone'>().not.toExtend<
+      FieldPath<DynamicFormValues<DemoDefinition>>
+    >()
+  })
+})
+
+describe('DynamicFormData', () => {
+  it('types each field from its definition', () => {
+    const schema = createDynamicSchema(demoFormDefinition, {})
+
+    expectTypeOf(schema.parse).returns.toEqualTypeOf<{
+      name: string
+      description: string
+      age: number
+      company: string
+      jobTitle?: string
+      role: '' | 'developer' | 'designer' | 'manager'
+      startDate?: Date
+      contacts: { name: string; email: string }[]
+      contactMethod: 'email' | 'phone'
+      newsletter: boolean
+      terms: true
+    }>()
+  })
+
+  it('narrows the fields a configuration literal switches off', () => {
+    const schema = createDynamicSchema(demoFormDefinition, {
+      age: false,
+      terms: false,
+      contacts: false,
+    })
+    const data = expectTypeOf(schema.parse).returns
+
+    data.toHaveProperty('terms').toEqualTypeOf<false>()
+    data.toHaveProperty('contacts').toEqualTypeOf<[]>()
+    data.toHaveProperty('age').toEqualTypeOf<undefined>()
+    data.toHaveProperty('name').toEqualTypeOf<string>()
+  })
+
+  it('covers both states of fields a runtime configuration may switch off', () => {
+    type Data = DynamicFormData<DemoDefinition, FieldConfiguration>
+
+    expectTypeOf<Data['terms']>().toEqualTypeOf<boolean>()
+    expectTypeOf<Data['age']>().toEqualTypeOf<number | undefined>()
+  })
+
+  it('flows from the resolver into the submitted data', () => {
+    const resolver = createDynamicResolver(demoFormDefinition, {
+      newsletter: false,
+    })
+
+    expectTypeOf(resolver).toEqualTypeOf<
+      Resolver<
+        DynamicFormValues<DemoDefinition>,
+        unknown,
+        DynamicFormData<DemoDefinition, { readonly newsletter: false }>
+      >
+    >()
+  })
+
+  it('types the data the wizard submits', () => {
+    type Config = { readonly terms: false }
+    const onSubmit = expectTypeOf(DynamicFormWizard<DemoDefinition, Config>)
+      .parameter(0)
+      .toHaveProperty('onSubmit')
+
+    onSubmit
+      .parameter(0)
+      .toEqualTypeOf<DynamicFormData<DemoDefinition, Config>>()
+  })
+
+  it('stays loosely typed for definitions that are not const', () => {
+    expectTypeOf<DynamicFormData>().toEqualTypeOf<
+      Record<string, DynamicFieldValue>
+    >()
+    expectTypeOf<FieldName>().toEqualTypeOf<string>()
+  })
+})
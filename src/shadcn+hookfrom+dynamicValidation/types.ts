@@ -1,17 +1,324 @@
+/**
+ * Input types a form definition field can render as
+ */
+export type FieldType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'date'
+  | 'select'
+  | 'radio'
+  | 'checkbox'
+  | 'switch'
+
+/**
+ * Validation constraints for a single field
+ * Patterns and dates (YYYY-MM-DD) are stored as strings so definitions stay JSON-serializable
+ * `min`/`max` apply to number fields, `minDate`/`maxDate` to date fields
+ */
+export interface FieldConstraints {
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  min?: number
+  max?: number
+  minDate?: string
+  maxDate?: string
+}
+
+/**
+ * Optional overrides for the generated validation messages
+ * `min`/`max` are shared by number and date fields; `invalid` is used when a value cannot be coerced
+ */
+export interface FieldMessages {
+  required?: string
+  minLength?: string
+  maxLength?: string
+  pattern?: string
+  min?: string
+  max?: string
+  invalid?: string
+}
+
+/**
+ * A choice offered by select and radio fields
+ */
+export interface FieldOption {
+  value: string
+  label: string
+}
+
+/**
+ * Comparison operators available to field conditions
+ */
+export type ConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'startsWith'
+  | 'contains'
+  | 'isEmpty'
+  | 'isNotEmpty'
+
+/**
+ * Declarative condition evaluated against the current value of another field
+ * `value` is ignored by the `isEmpty` and `isNotEmpty` operators
+ */
+export interface FieldCondition {
+  field: string
+  operator: ConditionOperator
+  value?: string
+}
+
+/**
+ * Serializable description of a single scalar form field
+ * `visibleWhen` and `requiredWhen` hold only when every condition in the list matches
+ */
+export interface ScalarFieldDefinition {
+  name: string
+  type: FieldType
+  label: string
+  placeholder?: string
+  defaultValue?: string | boolean
+  required?: boolean
+  options?: readonly FieldOption[]
+  constraints?: FieldConstraints
+  messages?: FieldMessages
+  visibleWhen?: readonly FieldCondition[]
+  requiredWhen?: readonly FieldCondition[]
+}
+
+/**
+ * Optional overrides for the generated group validation messages
+ */
+export interface GroupMessages {
+  minItems?: string
+  maxItems?: string
+}
+
+/**
+ * Serializable description of a repeatable group of scalar fields
+ * Each item holds a value for every field in `fields`
+ */
+export interface GroupFieldDefinition {
+  name: string
+  type: 'group'
+  label: string
+  itemLabel?: string
+  fields: readonly ScalarFieldDefinition[]
+  minItems?: number
+  maxItems?: number
+  messages?: GroupMessages
+  visibleWhen?: readonly FieldCondition[]
+}
+
+/**
+ * Serializable description of a single form field
+ */
+export type FieldDefinition = ScalarFieldDefinition | GroupFieldDefinition
+
+/**
+ * Serializable description of a wizard step
+ * Lists the names of the fields shown and validated on that step
+ */
+export interface FormStep {
+  id: string
+  title: string
+  description?: string
+  fields: readonly string[]
+}
+
+/**
+ * Serializable description of a whole form
+ * The renderer and schema builder are both driven from this
+ * `steps` is only used when the form is rendered as a wizard
+ */
+export interface FormDefinition {
+  fields: readonly FieldDefinition[]
+  steps?: readonly FormStep[]
+}
+
 /**
  * Form display state configuration
- * Controls which fields are shown and validated in the dynamic form
+ * Controls which fields are shown and validated in the dynamic form, keyed by field name.
+ * Fields missing from the configuration are treated as enabled.
+ * Fields a configuration literal switches off are typed as their empty value in DynamicFormData
+ */
+export type FieldConfiguration = Record<string, boolean>
+
+/**
+ * Validated value of a scalar field
+ * Numbers and dates are coerced from their input strings; checkboxes and switches are booleans
+ */
+export type DynamicScalarValue = string | number | boolean | Date
+
+/**
+ * Values of a single item in a repeatable group, keyed by field name
+ * Empty optional number and date fields are left out
+ */
+export type DynamicGroupItem = Partial<Record<string, DynamicScalarValue>>
+
+/**
+ * Value of a single field: a scalar value, or a list of items for groups
+ */
+export type DynamicFieldValue = DynamicScalarValue | DynamicGroupItem[]
+
+/**
+ * Value of a scalar field as edited: input strings, or booleans for checkboxes and switches
+ */
+export type DynamicInputValue = string | boolean
+
+/**
+ * Names of the fields in a form definition
+ * Definitions declared `as const` give the union of their names, loosely typed ones `string`
+ */
+export type FieldName<D extends FormDefinition = FormDefinition> =
+  D['fields'][number]['name']
+
+/**
+ * Flattens an intersection so editors show a single object type
+ */
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+/**
+ * Makes the keys whose value can be undefined optional, as such values are left out of the result
+ */
+type OptionalWhenUndefined<T> = Simplify<
+  { [K in keyof T as undefined extends T[K] ? never : K]: T[K] } & {
+    [K in keyof T as undefined extends T[K] ? K : never]?: Exclude<
+      T[K],
+      undefined
+    >
+  }
+>
+
+/**
+ * Input value of a scalar field: booleans for checkboxes and switches, strings otherwise
+ */
+type ScalarInputValue<F extends ScalarFieldDefinition> = F extends {
+  type: 'checkbox' | 'switch'
+}
+  ? boolean
+  : string
+
+/**
+ * Input value of a field; groups hold a list of items
+ */
+type FieldInputValue<F extends FieldDefinition> = F extends GroupFieldDefinition
+  ? {
+      [I in F['fields'][number] as I['name']]?: ScalarInputValue<I>
+    }[]
+  : F extends ScalarFieldDefinition
+  ? ScalarInputValue<F>
+  : never
+
+/**
+ * Values of a select or radio field's options, or any string when it has none
  */
-export interface FieldConfiguration {
-  name: boolean
-  description: boolean
+type OptionValue<F extends ScalarFieldDefinition> = F extends {
+  options: readonly { value: infer V extends string }[]
 }
+  ? [V] extends [never]
+    ? string
+    : V
+  : string
+
+/**
+ * Value type of a field that also accepts `Empty` unless it is always required
+ * `requiredWhen` only sometimes applies, so it keeps the empty value
+ */
+type Requirable<F extends ScalarFieldDefinition, T, Empty> = F extends {
+  required: true
+}
+  ? T
+  : T | Empty
+
+/**
+ * Validated value of an enabled scalar field
+ */
+type ScalarDataValue<F extends ScalarFieldDefinition> = F extends {
+  type: 'number'
+}
+  ? Requirable<F, number, undefined>
+  : F extends { type: 'date' }
+  ? Requirable<F, Date, undefined>
+  : F extends { type: 'checkbox' | 'switch' }
+  ? Requirable<F, true, boolean>
+  : F extends { type: 'select' | 'radio' }
+  ? Requirable<F, OptionValue<F>, ''>
+  : string
+
+/**
+ * Validated value of an enabled field; fields with `visibleWhen` rules may be left out
+ */
+type FieldDataValue<F extends FieldDefinition> =
+  | (F extends GroupFieldDefinition
+      ? OptionalWhenUndefined<{
+          [I in F['fields'][number] as I['name']]: ScalarDataValue<I>
+        }>[]
+      : F extends ScalarFieldDefinition
+      ? ScalarDataValue<F>
+      : never)
+  | (F extends { visibleWhen: readonly FieldCondition[] } ? undefined : never)
+
+/**
+ * Value a switched off field takes in the result, see `getEmptyValue`
+ */
+type FieldEmptyValue<F extends FieldDefinition> = F extends {
+  type: 'group'
+}
+  ? []
+  : F extends { type: 'checkbox' | 'switch' }
+  ? false
+  : F extends { type: 'number' | 'date' }
+  ? undefined
+  : ''
+
+/**
+ * Whether a field is switched on in a configuration; missing fields are enabled
+ */
+type IsEnabled<
+  C extends FieldConfiguration,
+  N extends string
+> = N extends keyof C ? C[N] : true
+
+/**
+ * Value of a field for each way it can be configured
+ */
+type ConfiguredValue<
+  F extends FieldDefinition,
+  Enabled extends boolean
+> = Enabled extends true ? FieldDataValue<F> : FieldEmptyValue<F>
 
 /**
  * Base form data type
  * Represents the structure of form data after validation and transformation
+ * Empty optional number and date fields are left out
+ * Given a definition declared `as const`, each field is typed from its definition, and fields
+ * switched off (`false`) in a configuration type `C` are typed as their empty value
  */
-export interface DynamicFormData {
-  name: string
-  description: string
-}
+export type DynamicFormData<
+  D extends FormDefinition = FormDefinition,
+  C extends FieldConfiguration = FieldConfiguration
+> = string extends FieldName<D>
+  ? Record<string, DynamicFieldValue>
+  : OptionalWhenUndefined<{
+      [F in D['fields'][number] as F['name']]: ConfiguredValue<
+        F,
+        IsEnabled<C, F['name']>
+      >
+    }>
+
+/**
+ * Form values as edited, before validation fills in missing values
+ * This is the input type of the dynamic schema and the field values type of the form,
+ * so a definition declared `as const` types the form's field names
+ */
+export type DynamicFormValues<D extends FormDefinition = FormDefinition> =
+  string extends FieldName<D>
+    ? Partial<
+        Record<
+          string,
+          DynamicInputValue | Partial<Record<string, DynamicInputValue>>[]
+        >
+      >
+    : { [F in D['fields'][number] as F['name']]?: FieldInputValue<F> }
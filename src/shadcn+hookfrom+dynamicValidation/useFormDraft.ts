@@ -0,0 +1,56 @@
+import { useCallback, useEffect, useState } from 'react'
+import { clearDraft, loadDraft, saveDraft, type DraftOptions } from './drafts'
+import type { DynamicFormValues, FieldConfiguration } from './types'
+
+interface UseFormDraftOptions extends DraftOptions {
+  values: DynamicFormValues
+  config: FieldConfiguration
+  enabled?: boolean
+  wait?: number
+}
+
+/**
+ * Autosaves form values and field configuration as a draft, and offers a stored draft on mount
+ * Autosave is paused until the offered draft is restored or discarded,
+ * so the draft is not overwritten by the empty form, and while `enabled` is false
+ */
+export function useFormDraft({
+  values,
+  config,
+  enabled = true,
+  wait = 500,
+  ...options
+}: UseFormDraftOptions) {
+  const { key, version, storage, migrations } = options
+  const [draft, setDraft] = useState(() => loadDraft(options))
+
+  // Serialized so the effect only runs when the content actually changes
+  const snapshot = JSON.stringify({ values, config })
+
+  useEffect(() => {
+    if (draft || !enabled) {
+      return
+    }
+
+    const timer = setTimeout(() => {
+      const { values, config } = JSON.parse(snapshot)
+      saveDraft({ key, version, storage }, values, config)
+    }, wait)
+
+    return () => clearTimeout(timer)
+  }, [draft, enabled, snapshot, wait, key, version, storage])
+
+  // Hands the offered draft to the caller and resumes autosave
+  const restoreDraft = useCallback(() => {
+    setDraft(null)
+    return draft
+  }, [draft])
+
+  // Removes the stored draft and stops offering it
+  const discardDraft = useCallback(() => {
+    clearDraft({ key, version, storage, migrations })
+    setDraft(null)
+  }, [key, version, storage, migrations])
+
+  return { draft, restoreDraft, discardDraft }
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import { createMockSubmissionAdapter, isAbortError } from './submission'
+import { useSubmission } from './useSubmission'
+
+const data = { name: 'Ada' }
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('useSubmission', () => {
+  it('reports the current attempt', async () => {
+    const adapter = createMockSubmissionAdapter({ latency: 100, failures: 1 })
+    const { result } = renderHook(() =>
+      useSubmission(adapter, { retryDelay: 50 })
+    )
+
+    let submission: Promise<unknown> = Promise.resolve()
+    act(() => {
+      submission = result.current.submit(data)
+    })
+    expect(result.current.attempt).toBe(1)
+
+    await act(() => vi.advanceTimersByTimeAsync(150))
+    expect(result.current.attempt).toBe(2)
+
+    await act(() => vi.advanceTimersByTimeAsync(100))
+    await expect(submission).resolves.toMatchObject({ status: 'success' })
+  })
+
+  it('aborts the submission in flight on cancel, resubmit and unmount', async () => {
+    const adapter = createMockSubmissionAdapter({ latency: 100 })
+    const { result, unmount } = renderHook(() => useSubmission(adapter))
+    const submitAndCatch = () =>
+      result.current.submit(data).catch((error: unknown) => error)
+
+    const cancelled = submitAndCatch()
+    act(() => result.current.cancel())
+    expect(isAbortError(await cancelled)).toBe(true)
+
+    const replaced = submitAndCatch()
+    const unmounted = submitAndCatch()
+    expect(isAbortError(await replaced)).toBe(true)
+
+    unmount()
+    expect(isAbortError(await unmounted)).toBe(true)
+  })
+})
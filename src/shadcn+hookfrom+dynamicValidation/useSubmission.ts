@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  submitWithRetry,
+  type SubmissionAdapter,
+  type SubmitOptions,
+} from './submission'
+import type { DynamicFormData } from './types'
+
+/**
+ * Submits form data through an adapter with retry and cancellation
+ * Starting a new submission, calling cancel or unmounting aborts the one in flight
+ */
+export function useSubmission(
+  adapter: SubmissionAdapter,
+  { retries, retryDelay }: Pick<SubmitOptions, 'retries' | 'retryDelay'> = {}
+) {
+  const controllerRef = useRef<AbortController | null>(null)
+  const [attempt, setAttempt] = useState(0)
+
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const submit = useCallback(
+    async (data: DynamicFormData) => {
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
+      try {
+        return await submitWithRetry(adapter, data, {
+          retries,
+          retryDelay,
+          signal: controller.signal,
+          onAttempt: setAttempt,
+        })
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null
+        }
+      }
+    },
+    [adapter, retries, retryDelay]
+  )
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  return { submit, cancel, attempt }
+}
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { debounceAsyncValidator } from './validators'
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('debounceAsyncValidator', () => {
+  it('shares the result of the last call made within the wait window', async () => {
+    const validator = vi.fn(async (value: string) => `${value} is taken`)
+    const debounced = debounceAsyncValidator(validator, 100)
+
+    const results = Promise.all([debounced('a'), debounced('ab')])
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(await results).toEqual(['ab is taken', 'ab is taken'])
+    expect(validator).toHaveBeenCalledExactlyOnceWith('ab')
+  })
+
+  it('keeps only the most recently used results', async () => {
+    const validator = vi.fn(async () => undefined)
+    const debounced = debounceAsyncValidator(validator, 0, 2)
+    const validate = async (value: string) => {
+      const result = debounced(value)
+      await vi.runAllTimersAsync()
+      return result
+    }
+
+    await validate('a')
+    await validate('b')
+    // Using a makes b the least recently used, so c pushes b out
+    await validate('a')
+    await validate('c')
+    expect(validator).toHaveBeenCalledTimes(3)
+
+    await validate('a')
+    expect(validator).toHaveBeenCalledTimes(3)
+    await validate('b')
+    expect(validator).toHaveBeenCalledTimes(4)
+  })
+})
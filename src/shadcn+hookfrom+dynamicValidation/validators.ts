@@ -0,0 +1,120 @@
+import type * as z from 'zod'
+import type { Locale, MessageCatalog } from './i18n'
+import type { DynamicFormData } from './types'
+
+/**
+ * Pluggable async check for a single field value
+ * Resolves with an error message key, or undefined when the value is valid
+ * The message can use the `{label}` and `{value}` placeholders
+ */
+export type AsyncFieldValidator = (value: string) => Promise<string | undefined>
+
+/**
+ * superRefine-style rule that can read several fields at once
+ * `fields` lists every field the rule reads, so changing one re-validates the others
+ */
+export interface CrossFieldRefinement {
+  fields: readonly string[]
+  refine: (data: DynamicFormData, ctx: z.RefinementCtx<DynamicFormData>) => void
+}
+
+/**
+ * Extra validation registered against the dynamic schema
+ * `locale` and `messages` control how validation messages are resolved
+ */
+export interface DynamicSchemaOptions {
+  refinements?: readonly CrossFieldRefinement[]
+  asyncValidators?: Partial<Record<string, AsyncFieldValidator>>
+  locale?: Locale
+  messages?: MessageCatalog
+}
+
+/**
+ * Debounces an async validator and caches its results for the most recently used values
+ * Calls made within the wait window share the result of the last call,
+ * so a stale value never overwrites the result for the latest one
+ *
+ * @param validator - Validator to debounce
+ * @param wait - Debounce window in milliseconds
+ * @param cacheSize - Number of results kept, the least recently used is dropped first
+ * @returns Debounced validator
+ */
+export function debounceAsyncValidator(
+  validator: AsyncFieldValidator,
+  wait = 300,
+  cacheSize = 50
+): AsyncFieldValidator {
+  // Maps keep insertion order, so re-inserting on use makes the first key the least recent
+  const cache = new Map<string, string | undefined>()
+  const remember = (value: string, message: string | undefined) => {
+    cache.delete(value)
+    cache.set(value, message)
+    if (cache.size > cacheSize) {
+      const [oldest] = cache.keys()
+      cache.delete(oldest)
+    }
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let waiting: Array<{
+    resolve: (message: string | undefined) => void
+    reject: (reason: unknown) => void
+  }> = []
+
+  return (value) => {
+    if (cache.has(value)) {
+      const message = cache.get(value)
+      remember(value, message)
+      return Promise.resolve(message)
+    }
+
+    clearTimeout(timer)
+
+    return new Promise((resolve, reject) => {
+      waiting.push({ resolve, reject })
+
+      timer = setTimeout(async () => {
+        const callers = waiting
+        waiting = []
+
+        try {
+          const message = await validator(value)
+          remember(value, message)
+          callers.forEach((caller) => caller.resolve(message))
+        } catch (error) {
+          callers.forEach((caller) => caller.reject(error))
+        }
+      }, wait)
+    })
+  }
+}
+
+/**
+ * Creates a refinement that rejects a field repeating another field's value
+ *
+ * @param field - Field the error is reported on
+ * @param otherField - Field that must not be repeated
+ * @param message - Error message key
+ * @returns Cross-field refinement
+ */
+export function mustNotRepeat(
+  field: string,
+  otherField: string,
+  message: string
+): CrossFieldRefinement {
+  return {
+    fields: [field, otherField],
+    refine: (data, ctx) => {
+      const value = data[field]
+      const other = data[otherField]
+
+      if (
+        typeof value === 'string' &&
+        typeof other === 'string' &&
+        value.trim() !== '' &&
+        value.trim().toLowerCase() === other.trim().toLowerCase()
+      ) {
+        ctx.addIssue({ code: 'custom', params: { message }, path: [field] })
+      }
+    },
+  }
+}
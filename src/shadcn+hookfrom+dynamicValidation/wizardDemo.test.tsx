@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import WizardDemo from './wizardDemo'
+
+describe('WizardDemo', () => {
+  it('translates the page, steps and buttons', async () => {
+    render(<WizardDemo />)
+
+    await userEvent.selectOptions(screen.getByLabelText('Language'), 'de')
+
+    expect(
+      screen.getByRole('heading', { name: 'Dynamischer Schema-Assistent' })
+    ).toBeInTheDocument()
+    expect(screen.getByRole('heading', { name: 'Angaben' })).toBeInTheDocument()
+    expect(screen.getByText('Erzählen Sie uns, wer Sie sind')).toBeVisible()
+    expect(screen.getByRole('button', { name: 'Weiter' })).toBeInTheDocument()
+  })
+})
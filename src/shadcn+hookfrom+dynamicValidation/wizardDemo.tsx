@@ -0,0 +1,77 @@
+import { useMemo, useState } from 'react'
+import { createFieldConfiguration } from './schemas'
+import { DynamicFormWizard } from './DynamicFormWizard'
+import { demoFormDefinition } from './formDefinition'
+import { demoSchemaOptions } from './demoValidation'
+import { createTranslator, localizeDefinition, type Locale } from './i18n'
+import { demoLocales, demoMessages } from './demoMessages'
+import type { DynamicFormData } from './types'
+
+const fieldControls = createFieldConfiguration(demoFormDefinition)
+
+// The wizard shows the static definition, so the submitted data is typed field by field
+type DemoFormData = DynamicFormData<typeof demoFormDefinition>
+
+/**
+ * Demo component showcasing the dynamic form definition rendered as a multi-step wizard
+ */
+function WizardDemo() {
+  const [submittedData, setSubmittedData] = useState<DemoFormData | null>(null)
+
+  // Locale for step titles, labels, page text and validation messages
+  const [locale, setLocale] = useState<Locale>('en')
+  const t = useMemo(
+    () => createTranslator(locale, demoMessages[locale]),
+    [locale]
+  )
+  const definition = useMemo(
+    () => localizeDefinition(demoFormDefinition, t),
+    [t]
+  )
+  const schemaOptions = useMemo(
+    () => ({ ...demoSchemaOptions, locale, messages: demoMessages[locale] }),
+    [locale]
+  )
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h1>{t('wizardTitle')}</h1>
+        <label className="flex items-center gap-2 text-sm">
+          <span>{t('language')}</span>
+          <select
+            value={locale}
+            onChange={(e) => setLocale(e.target.value as Locale)}
+            className="rounded border px-2 py-1"
+          >
+            {Object.entries(demoLocales).map(([value, name]) => (
+              <option key={value} value={value}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <DynamicFormWizard
+        definition={definition}
+        config={fieldControls}
+        options={schemaOptions}
+        onSubmit={setSubmittedData}
+      />
+
+      {/* Display submitted data */}
+      {submittedData && (
+        <div className="bg-green-50 border border-green-200 p-4 rounded-lg">
+          <h3 className="font-semibold text-green-800 mb-2">
+            {t('submitted')}
+          </h3>
+          <pre className="text-xs text-green-700 bg-green-100 p-2 rounded mt-2 overflow-auto">
+            {JSON.stringify(submittedData, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default WizardDemo
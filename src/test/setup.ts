@@ -0,0 +1,9 @@
+import '@testing-library/jest-dom/vitest'
+import { cleanup } from '@testing-library/react'
+import { afterEach } from 'vitest'
+
+// Testing Library only cleans up by itself when test globals are enabled
+afterEach(() => {
+  cleanup()
+  localStorage.clear()
+})
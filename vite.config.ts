@@ -1,13 +1,69 @@
-import { defineConfig } from 'vite'
+/// <reference types="vitest/config" />
+import { defineConfig, runnerImport, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
 
+const alias = {
+  '@': path.resolve(__dirname, './src'),
+}
+
+// Theme variants and the playground routes (demo ids in src/playground/demos.ts) they run on
+// Each variant keeps its own storage key and tokens, so its script only runs on its own demos;
+// '' is the playground's default route, which shows the first demo
+const themeVariants = [
+  {
+    routes: ['', 'context-custom-hooks'],
+    module: './src/context+provider+customHooks/context/themeStorage.tsx',
+  },
+  {
+    routes: ['context-reducer'],
+    module:
+      './src/context+provider+customHook+reducer/context/themeStorage.tsx',
+  },
+]
+
+// Inlines each variant's getThemeScript() into index.html so the stored theme is applied before React mounts
+// The scripts are generated from the theme modules on every build, so they can't drift from them
+function themeScript(): Plugin {
+  return {
+    name: 'theme-script',
+    async transformIndexHtml() {
+      const scripts = await Promise.all(
+        themeVariants.map(async ({ routes, module: modulePath }) => {
+          const { module } = await runnerImport<{
+            getThemeScript: () => string
+          }>(path.resolve(__dirname, modulePath), {
+            configFile: false,
+            resolve: { alias },
+          })
+
+          // Same route parsing as useHashRoute
+          return `if(${JSON.stringify(
+            routes
+          )}.indexOf(location.hash.replace(/^#\\/?/,''))!==-1)${module.getThemeScript()}`
+        })
+      )
+
+      return [
+        {
+          tag: 'script',
+          children: scripts.join(';'),
+          injectTo: 'head',
+        },
+      ]
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), themeScript()],
   resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
-    },
+    alias,
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+    restoreMocks: true,
   },
 })